@@ -1,29 +1,185 @@
 import { createClient } from "@libsql/client";
 import { promises as fs } from "fs";
 import path from "path";
-import { hashFile } from "./hasher.js";
+import { HASH_ALGORITHM, hashFile, hashFilePartial } from "./hasher.js";
+import { RedactionMode } from "./redaction.js";
+
+/**
+ * How the embedded content of an entry was screened for sensitive data:
+ * "none" when the scan found nothing, the redaction mode when matches were
+ * redacted, and null when it was never scanned (raw content)
+ */
+export type ContentRedaction = "none" | Exclude<RedactionMode, "off"> | null;
 
 export interface CachedEmbeddingResult {
   embedding: number[];
   strategy: string;
+  matchedBy: "path" | "hash"; // "hash" when reused from a renamed/moved/copied file
+  redaction: ContentRedaction;
+}
+
+/**
+ * Embedding of one window of a chunked document
+ */
+export interface CachedChunk {
+  chunkIndex: number;
+  startToken: number;
+  endToken: number;
+  tokenCount: number;
+  embedding: number[];
+}
+
+/**
+ * Describes how an embedding was produced. Entries whose provenance differs
+ * from the current run's are treated as cache misses so vectors from
+ * different models never end up in the same clustering run.
+ */
+export interface EmbeddingProvenance {
+  model: string; // Provider-qualified model, e.g. "openai:text-embedding-3-small"
+  dimensions?: number; // Undefined when the model's native size is used
+  pipelineVersion: string; // Version of the extraction pipeline
+  redaction: RedactionMode; // Entries redacted another way are misses
+  // Version of each configured strategy; entries extracted by one must
+  // carry its current version, entries extracted by a built-in none
+  strategyVersions: Map<string, string>;
 }
 
+/**
+ * Schema migrations, applied in order on top of the original (version 0)
+ * layout. Each entry brings the database to `version`.
+ */
+const MIGRATIONS: Array<{ version: number; statements: string[] }> = [
+  {
+    // Key entries by path relative to the cache directory instead of
+    // basename, and index content hashes so moved files can be matched
+    version: 1,
+    statements: [
+      `CREATE TABLE cache_entries_v1 (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        relative_path TEXT UNIQUE NOT NULL,
+        file_path TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        embedding TEXT NOT NULL,
+        last_modified INTEGER NOT NULL,
+        size INTEGER NOT NULL,
+        strategy TEXT NOT NULL,
+        is_validated INTEGER DEFAULT 0,
+        is_stale INTEGER DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      // Version 0 caches only covered a flat directory, so the basename
+      // is also the relative path
+      `INSERT INTO cache_entries_v1 (
+        relative_path, file_path, hash, embedding, last_modified, size,
+        strategy, is_validated, is_stale, created_at, updated_at
+      )
+      SELECT file_name, file_path, hash, embedding, last_modified, size,
+        strategy, 0, is_stale, created_at, updated_at
+      FROM cache_entries`,
+      `DROP TABLE cache_entries`,
+      `ALTER TABLE cache_entries_v1 RENAME TO cache_entries`,
+      `CREATE INDEX IF NOT EXISTS idx_hash ON cache_entries(hash)`,
+      `CREATE INDEX IF NOT EXISTS idx_size ON cache_entries(size)`,
+      `CREATE INDEX IF NOT EXISTS idx_is_stale ON cache_entries(is_stale)`,
+    ],
+  },
+  {
+    // Record embedding provenance; earlier entries were all produced by the
+    // then hard-coded OpenAI model at 512 dimensions
+    version: 2,
+    statements: [
+      `ALTER TABLE cache_entries ADD COLUMN model TEXT`,
+      `ALTER TABLE cache_entries ADD COLUMN dimensions INTEGER`,
+      `ALTER TABLE cache_entries ADD COLUMN pipeline_version TEXT`,
+      `UPDATE cache_entries SET model = 'openai:text-embedding-3-small', dimensions = 512, pipeline_version = '1'`,
+    ],
+  },
+  {
+    // Per-chunk vectors for documents embedded in chunking mode
+    version: 3,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS cache_chunks (
+        entry_id INTEGER NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        start_token INTEGER NOT NULL,
+        end_token INTEGER NOT NULL,
+        token_count INTEGER NOT NULL,
+        embedding TEXT NOT NULL,
+        PRIMARY KEY (entry_id, chunk_index)
+      )`,
+    ],
+  },
+  {
+    // Record which algorithm produced each content hash (earlier entries
+    // were hashed with MD5), plus a partial hash of sampled bytes for cheap
+    // change detection
+    version: 4,
+    statements: [
+      `ALTER TABLE cache_entries ADD COLUMN hash_algorithm TEXT`,
+      `UPDATE cache_entries SET hash_algorithm = 'md5'`,
+      `ALTER TABLE cache_entries ADD COLUMN partial_hash TEXT`,
+      `CREATE INDEX IF NOT EXISTS idx_partial_hash ON cache_entries(size, partial_hash)`,
+    ],
+  },
+  {
+    // Record per entry how its content was screened for sensitive data,
+    // rather than the redaction mode in the pipeline version, so entries
+    // with nothing to redact stay valid whatever the mode. Older entries
+    // were either never scanned or carry the mode in their pipeline version
+    version: 5,
+    statements: [
+      `ALTER TABLE cache_entries ADD COLUMN redaction TEXT`,
+      `UPDATE cache_entries SET redaction = 'mask', pipeline_version = replace(pipeline_version, '+redact:mask', '') WHERE pipeline_version LIKE '%+redact:mask'`,
+      `UPDATE cache_entries SET redaction = 'metadata', pipeline_version = replace(pipeline_version, '+redact:metadata', '') WHERE pipeline_version LIKE '%+redact:metadata'`,
+    ],
+  },
+  {
+    // Record the version of the configured strategy that extracted each
+    // entry, rather than a hash of every configured strategy in the
+    // pipeline version, so changing one only invalidates its own files.
+    // Older entries carry no version: those extracted by a built-in tool
+    // stay valid, those extracted by a configured strategy are re-embedded
+    version: 6,
+    statements: [
+      `ALTER TABLE cache_entries ADD COLUMN strategy_version TEXT`,
+      `UPDATE cache_entries SET pipeline_version = substr(pipeline_version, 1, instr(pipeline_version, '+strategies:') - 1) WHERE pipeline_version LIKE '%+strategies:%'`,
+    ],
+  },
+];
+
 export class EmbeddingCache {
-  private static readonly DB_FILENAME = ".triage.db";
+  static readonly DB_FILENAME = ".triage.db";
   private client: any;
   private directory: string;
   private isInitialized = false;
   private fastMode: boolean;
+  private provenance: EmbeddingProvenance | null;
 
-  constructor(directory: string, fastMode: boolean = false) {
+  constructor(
+    directory: string,
+    fastMode: boolean = false,
+    provenance: EmbeddingProvenance | null = null,
+  ) {
     this.directory = directory;
     this.fastMode = fastMode;
+    this.provenance = provenance;
   }
 
   private getDbPath(): string {
     return path.join(this.directory, EmbeddingCache.DB_FILENAME);
   }
 
+  /**
+   * Cache key for a file: its path relative to the cache directory
+   */
+  private getRelativePath(filePath: string): string {
+    return path
+      .relative(this.directory, path.resolve(filePath))
+      .split(path.sep)
+      .join("/");
+  }
+
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
@@ -32,7 +188,8 @@ export class EmbeddingCache {
       url: `file:${dbPath}`,
     });
 
-    // Create tables if they don't exist
+    // Original (version 0) layout; brand new databases start here too and
+    // are brought up to date by the migrations below
     await this.client.execute(`
       CREATE TABLE IF NOT EXISTS cache_entries (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -50,31 +207,148 @@ export class EmbeddingCache {
       )
     `);
 
-    // Create indexes for better performance
-    await this.client.execute(`
-      CREATE INDEX IF NOT EXISTS idx_file_name ON cache_entries(file_name)
-    `);
-    await this.client.execute(`
-      CREATE INDEX IF NOT EXISTS idx_file_path ON cache_entries(file_path)
-    `);
-    await this.client.execute(`
-      CREATE INDEX IF NOT EXISTS idx_is_stale ON cache_entries(is_stale)
-    `);
+    await this.migrate();
 
     this.isInitialized = true;
   }
 
+  /**
+   * Apply pending schema migrations, tracked via PRAGMA user_version
+   */
+  private async migrate(): Promise<void> {
+    const result = await this.client.execute(`PRAGMA user_version`);
+    const currentVersion = Number(result.rows[0].user_version ?? 0);
+
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= currentVersion) continue;
+
+      await this.client.batch(
+        [
+          ...migration.statements,
+          `PRAGMA user_version = ${migration.version}`,
+        ],
+        "write",
+      );
+    }
+  }
+
+  /**
+   * SQL condition (and its arguments) matching entries produced with the
+   * current provenance. Matches everything when no provenance is set.
+   */
+  private provenanceCondition(): { sql: string; args: any[] } {
+    if (!this.provenance) {
+      return { sql: "1 = 1", args: [] };
+    }
+
+    const { model, dimensions, pipelineVersion, redaction, strategyVersions } =
+      this.provenance;
+    const conditions = ["model IS ?", "pipeline_version IS ?"];
+    const args: any[] = [model, pipelineVersion];
+    if (dimensions !== undefined) {
+      conditions.push("dimensions IS ?");
+      args.push(dimensions);
+    }
+    if (strategyVersions.size === 0) {
+      conditions.push("strategy_version IS NULL");
+    } else {
+      // The current version of the entry's strategy; NULL for the others
+      conditions.push(
+        `strategy_version IS (CASE strategy ${"WHEN ? THEN ? ".repeat(
+          strategyVersions.size,
+        )}END)`,
+      );
+      args.push(...[...strategyVersions].flat());
+    }
+    // Unscanned entries are returned too; callers check their content
+    conditions.push("(redaction IS NULL OR redaction IN ('none', ?))");
+    args.push(redaction);
+    return { sql: conditions.join(" AND "), args };
+  }
+
+  /**
+   * Check whether an entry was produced with the current provenance
+   */
+  private matchesProvenance(entry: any): boolean {
+    if (!this.provenance) return true;
+
+    const { model, dimensions, pipelineVersion, redaction, strategyVersions } =
+      this.provenance;
+    return (
+      entry.model === model &&
+      entry.pipeline_version === pipelineVersion &&
+      (dimensions === undefined || Number(entry.dimensions) === dimensions) &&
+      entry.strategy_version ===
+        (strategyVersions.get(entry.strategy) ?? null) &&
+      (entry.redaction === null ||
+        entry.redaction === "none" ||
+        entry.redaction === redaction)
+    );
+  }
+
+  /**
+   * Mark a cache entry as validated, recording whether it is stale
+   */
+  private async markValidated(id: number, isStale: boolean): Promise<void> {
+    await this.client.execute({
+      sql: `UPDATE cache_entries SET is_validated = 1, is_stale = ? WHERE id = ?`,
+      args: [isStale ? 1 : 0, id],
+    });
+  }
+
+  /**
+   * Check a file against the hashes of its entry: the partial hash first,
+   * the full hash only when the partial one matches
+   * Entries hashed with another algorithm can't be checked; they are
+   * trusted on their stats and get fresh hashes
+   */
+  private async verifyContent(entry: any, filePath: string): Promise<boolean> {
+    if (entry.hash_algorithm !== HASH_ALGORITHM) {
+      await this.client.execute({
+        sql: `UPDATE cache_entries SET hash = ?, partial_hash = ?, hash_algorithm = ? WHERE id = ?`,
+        args: [
+          await hashFile(filePath),
+          await hashFilePartial(filePath),
+          HASH_ALGORITHM,
+          entry.id,
+        ],
+      });
+      return true;
+    }
+
+    if (
+      entry.partial_hash &&
+      (await hashFilePartial(filePath)) !== entry.partial_hash
+    ) {
+      return false;
+    }
+    return (await hashFile(filePath)) === entry.hash;
+  }
+
   /**
    * Get cached embedding with optimized validation
+   * Falls back to a content-hash lookup when the path has no usable entry,
+   * so renamed or moved files reuse their existing embedding
    */
   async getCachedEmbedding(
     filePath: string,
   ): Promise<CachedEmbeddingResult | null> {
-    const fileName = path.basename(filePath);
+    const byPath = await this.getCachedEmbeddingByPath(filePath);
+    if (byPath) {
+      return byPath;
+    }
+
+    return await this.getCachedEmbeddingByHash(filePath);
+  }
+
+  private async getCachedEmbeddingByPath(
+    filePath: string,
+  ): Promise<CachedEmbeddingResult | null> {
+    const relativePath = this.getRelativePath(filePath);
 
     const result = await this.client.execute({
-      sql: `SELECT * FROM cache_entries WHERE file_name = ?`,
-      args: [fileName],
+      sql: `SELECT * FROM cache_entries WHERE relative_path = ?`,
+      args: [relativePath],
     });
 
     if (result.rows.length === 0) {
@@ -83,12 +357,21 @@ export class EmbeddingCache {
 
     const entry = result.rows[0];
 
+    // Vectors from another model, size or pipeline can't be mixed in
+    if (!this.matchesProvenance(entry)) {
+      return null;
+    }
+
+    const cachedResult: CachedEmbeddingResult = {
+      embedding: JSON.parse(entry.embedding),
+      strategy: entry.strategy,
+      matchedBy: "path",
+      redaction: entry.redaction,
+    };
+
     // If already validated and not stale, return immediately
     if (entry.is_validated && !entry.is_stale) {
-      return {
-        embedding: JSON.parse(entry.embedding),
-        strategy: entry.strategy,
-      };
+      return cachedResult;
     }
 
     // If not validated, do validation
@@ -102,19 +385,10 @@ export class EmbeddingCache {
             entry.last_modified === stats.mtime.getTime() &&
             entry.size === stats.size
           ) {
-            await this.client.execute({
-              sql: `UPDATE cache_entries SET is_validated = 1, is_stale = 0 WHERE file_name = ?`,
-              args: [fileName],
-            });
-            return {
-              embedding: JSON.parse(entry.embedding),
-              strategy: entry.strategy,
-            };
+            await this.markValidated(entry.id, false);
+            return cachedResult;
           } else {
-            await this.client.execute({
-              sql: `UPDATE cache_entries SET is_validated = 1, is_stale = 1 WHERE file_name = ?`,
-              args: [fileName],
-            });
+            await this.markValidated(entry.id, true);
             return null;
           }
         } else {
@@ -125,71 +399,37 @@ export class EmbeddingCache {
           ) {
             if (stats.size < 1024 * 1024) {
               // Small files: trust stats
-              await this.client.execute({
-                sql: `UPDATE cache_entries SET is_validated = 1, is_stale = 0 WHERE file_name = ?`,
-                args: [fileName],
-              });
-              return {
-                embedding: JSON.parse(entry.embedding),
-                strategy: entry.strategy,
-              };
+              await this.markValidated(entry.id, false);
+              return cachedResult;
             } else {
               // Large files: verify hash
               if (entry.hash) {
                 try {
-                  const currentHash = await hashFile(filePath);
-                  if (entry.hash === currentHash) {
-                    await this.client.execute({
-                      sql: `UPDATE cache_entries SET is_validated = 1, is_stale = 0 WHERE file_name = ?`,
-                      args: [fileName],
-                    });
-                    return {
-                      embedding: JSON.parse(entry.embedding),
-                      strategy: entry.strategy,
-                    };
+                  if (await this.verifyContent(entry, filePath)) {
+                    await this.markValidated(entry.id, false);
+                    return cachedResult;
                   } else {
-                    await this.client.execute({
-                      sql: `UPDATE cache_entries SET is_validated = 1, is_stale = 1 WHERE file_name = ?`,
-                      args: [fileName],
-                    });
+                    await this.markValidated(entry.id, true);
                     return null;
                   }
                 } catch (error) {
                   // If hashing fails, fall back to stats-based validation
-                  await this.client.execute({
-                    sql: `UPDATE cache_entries SET is_validated = 1, is_stale = 0 WHERE file_name = ?`,
-                    args: [fileName],
-                  });
-                  return {
-                    embedding: JSON.parse(entry.embedding),
-                    strategy: entry.strategy,
-                  };
+                  await this.markValidated(entry.id, false);
+                  return cachedResult;
                 }
               } else {
                 // No hash available, trust stats
-                await this.client.execute({
-                  sql: `UPDATE cache_entries SET is_validated = 1, is_stale = 0 WHERE file_name = ?`,
-                  args: [fileName],
-                });
-                return {
-                  embedding: JSON.parse(entry.embedding),
-                  strategy: entry.strategy,
-                };
+                await this.markValidated(entry.id, false);
+                return cachedResult;
               }
             }
           } else {
-            await this.client.execute({
-              sql: `UPDATE cache_entries SET is_validated = 1, is_stale = 1 WHERE file_name = ?`,
-              args: [fileName],
-            });
+            await this.markValidated(entry.id, true);
             return null;
           }
         }
       } catch (error) {
-        await this.client.execute({
-          sql: `UPDATE cache_entries SET is_validated = 1, is_stale = 1 WHERE file_name = ?`,
-          args: [fileName],
-        });
+        await this.markValidated(entry.id, true);
         return null;
       }
     }
@@ -198,45 +438,219 @@ export class EmbeddingCache {
     return null;
   }
 
+  /**
+   * Look for an entry with identical content under another path
+   * Only hashes the file in full when an entry of the same size and partial
+   * hash exists
+   */
+  private async getCachedEmbeddingByHash(
+    filePath: string,
+  ): Promise<CachedEmbeddingResult | null> {
+    try {
+      const stats = await fs.stat(filePath);
+      const candidates = await this.client.execute({
+        sql: `SELECT COUNT(*) as count FROM cache_entries WHERE size = ?`,
+        args: [stats.size],
+      });
+      if (Number(candidates.rows[0].count) === 0) {
+        return null;
+      }
+
+      const partialHash = await hashFilePartial(filePath);
+      const partialMatches = await this.client.execute({
+        sql: `SELECT COUNT(*) as count FROM cache_entries WHERE size = ? AND partial_hash = ? AND hash_algorithm = ?`,
+        args: [stats.size, partialHash, HASH_ALGORITHM],
+      });
+      if (Number(partialMatches.rows[0].count) === 0) {
+        return null;
+      }
+
+      const hash = await hashFile(filePath);
+      const provenance = this.provenanceCondition();
+      const result = await this.client.execute({
+        sql: `SELECT * FROM cache_entries WHERE hash = ? AND hash_algorithm = ? AND size = ? AND ${provenance.sql} ORDER BY updated_at DESC LIMIT 1`,
+        args: [hash, HASH_ALGORITHM, stats.size, ...provenance.args],
+      });
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const entry = result.rows[0];
+      const embedding = JSON.parse(entry.embedding);
+      const chunks = await this.getChunksForEntry(entry.id);
+
+      // Record the embedding under the new path as well
+      await this.setCachedEmbedding(filePath, embedding, entry.strategy, {
+        hash,
+        partialHash,
+        chunks,
+        redaction: entry.redaction,
+      });
+
+      return {
+        embedding,
+        strategy: entry.strategy,
+        matchedBy: "hash",
+        redaction: entry.redaction,
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Content hash stored for a file, when its entry still matches the file's
+   * size and modification time and was hashed with the current algorithm
+   */
+  async getStoredHash(filePath: string): Promise<string | null> {
+    try {
+      const stats = await fs.stat(filePath);
+      const result = await this.client.execute({
+        sql: `SELECT hash FROM cache_entries WHERE relative_path = ? AND size = ? AND last_modified = ? AND hash_algorithm = ?`,
+        args: [
+          this.getRelativePath(filePath),
+          stats.size,
+          stats.mtime.getTime(),
+          HASH_ALGORITHM,
+        ],
+      });
+      return result.rows.length > 0 ? result.rows[0].hash : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Record that a file's entry was scanned for sensitive data and nothing
+   * was found, so it is valid whatever the redaction mode
+   */
+  async markContentScanned(filePath: string): Promise<void> {
+    await this.client.execute({
+      sql: `UPDATE cache_entries SET redaction = 'none' WHERE relative_path = ?`,
+      args: [this.getRelativePath(filePath)],
+    });
+  }
+
+  /**
+   * Get the per-chunk embeddings stored for a file, if it was chunked
+   */
+  async getCachedChunks(filePath: string): Promise<CachedChunk[]> {
+    const result = await this.client.execute({
+      sql: `SELECT id FROM cache_entries WHERE relative_path = ?`,
+      args: [this.getRelativePath(filePath)],
+    });
+    if (result.rows.length === 0) {
+      return [];
+    }
+    return await this.getChunksForEntry(result.rows[0].id);
+  }
+
+  private async getChunksForEntry(entryId: number): Promise<CachedChunk[]> {
+    const result = await this.client.execute({
+      sql: `SELECT * FROM cache_chunks WHERE entry_id = ? ORDER BY chunk_index`,
+      args: [entryId],
+    });
+    return result.rows.map((row: any) => ({
+      chunkIndex: Number(row.chunk_index),
+      startToken: Number(row.start_token),
+      endToken: Number(row.end_token),
+      tokenCount: Number(row.token_count),
+      embedding: JSON.parse(row.embedding),
+    }));
+  }
+
   async setCachedEmbedding(
     filePath: string,
     embedding: number[],
     strategy: string,
+    options: {
+      hash?: string;
+      partialHash?: string;
+      chunks?: CachedChunk[];
+      redaction?: ContentRedaction; // Unscanned when omitted
+    } = {},
   ): Promise<void> {
-    const fileName = path.basename(filePath);
+    const relativePath = this.getRelativePath(filePath);
 
     try {
       const stats = await fs.stat(filePath);
-      const hash = await hashFile(filePath);
+      const hash = options.hash ?? (await hashFile(filePath));
+      const partialHash =
+        options.partialHash ?? (await hashFilePartial(filePath));
 
       // Use UPSERT to handle both insert and update cases
       await this.client.execute({
         sql: `
           INSERT INTO cache_entries (
-            file_name, file_path, hash, embedding, last_modified, size, strategy, 
-            is_validated, is_stale, updated_at
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, 1, 0, CURRENT_TIMESTAMP)
-          ON CONFLICT(file_name) DO UPDATE SET
+            relative_path, file_path, hash, hash_algorithm, partial_hash, embedding,
+            last_modified, size, strategy, strategy_version, model, dimensions,
+            pipeline_version, redaction, is_validated, is_stale, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, 0, CURRENT_TIMESTAMP)
+          ON CONFLICT(relative_path) DO UPDATE SET
             file_path = excluded.file_path,
             hash = excluded.hash,
+            hash_algorithm = excluded.hash_algorithm,
+            partial_hash = excluded.partial_hash,
             embedding = excluded.embedding,
             last_modified = excluded.last_modified,
             size = excluded.size,
             strategy = excluded.strategy,
+            strategy_version = excluded.strategy_version,
+            model = excluded.model,
+            dimensions = excluded.dimensions,
+            pipeline_version = excluded.pipeline_version,
+            redaction = excluded.redaction,
             is_validated = excluded.is_validated,
             is_stale = excluded.is_stale,
             updated_at = CURRENT_TIMESTAMP
         `,
         args: [
-          fileName,
+          relativePath,
           filePath,
           hash,
+          HASH_ALGORITHM,
+          partialHash,
           JSON.stringify(embedding),
           stats.mtime.getTime(),
           stats.size,
           strategy,
+          this.provenance?.strategyVersions.get(strategy) ?? null,
+          this.provenance?.model ?? null,
+          embedding.length,
+          this.provenance?.pipelineVersion ?? null,
+          options.redaction ?? null,
         ],
       });
+
+      // Replace any chunk vectors from a previous embedding of this path
+      const entry = await this.client.execute({
+        sql: `SELECT id FROM cache_entries WHERE relative_path = ?`,
+        args: [relativePath],
+      });
+      const entryId = entry.rows[0].id;
+      await this.client.batch(
+        [
+          {
+            sql: `DELETE FROM cache_chunks WHERE entry_id = ?`,
+            args: [entryId],
+          },
+          ...(options.chunks ?? []).map((chunk) => ({
+            sql: `INSERT INTO cache_chunks (
+              entry_id, chunk_index, start_token, end_token, token_count, embedding
+            ) VALUES (?, ?, ?, ?, ?, ?)`,
+            args: [
+              entryId,
+              chunk.chunkIndex,
+              chunk.startToken,
+              chunk.endToken,
+              chunk.tokenCount,
+              JSON.stringify(chunk.embedding),
+            ],
+          })),
+        ],
+        "write",
+      );
     } catch (error) {
       console.error(`Error caching embedding for ${filePath}:`, error);
     }
@@ -246,9 +660,24 @@ export class EmbeddingCache {
    * Clean up stale cache entries to prevent cache bloat
    */
   async cleanupStaleEntries(): Promise<void> {
+    // Entries whose file no longer exists (deleted, renamed or moved) are stale
+    const entries = await this.client.execute({
+      sql: `SELECT id, relative_path FROM cache_entries WHERE is_stale = 0`,
+    });
+    for (const entry of entries.rows) {
+      try {
+        await fs.access(path.join(this.directory, entry.relative_path));
+      } catch (error) {
+        await this.markValidated(entry.id, true);
+      }
+    }
+
     const result = await this.client.execute({
       sql: `DELETE FROM cache_entries WHERE is_stale = 1`,
     });
+    await this.client.execute({
+      sql: `DELETE FROM cache_chunks WHERE entry_id NOT IN (SELECT id FROM cache_entries)`,
+    });
 
     if (result.rowsAffected > 0) {
       console.log(`Cleaned up ${result.rowsAffected} stale cache entries`);
@@ -262,6 +691,7 @@ export class EmbeddingCache {
     totalEntries: number;
     validEntries: number;
     staleEntries: number;
+    mismatchedEntries: number;
     cacheSize: number;
   }> {
     const totalResult = await this.client.execute({
@@ -276,6 +706,14 @@ export class EmbeddingCache {
       sql: `SELECT COUNT(*) as count FROM cache_entries WHERE is_stale = 1`,
     });
 
+    // Entries embedded with a different model, size, pipeline or strategy
+    // version
+    const provenance = this.provenanceCondition();
+    const mismatchedResult = await this.client.execute({
+      sql: `SELECT COUNT(*) as count FROM cache_entries WHERE NOT (${provenance.sql})`,
+      args: provenance.args,
+    });
+
     // Get database file size
     const dbPath = this.getDbPath();
     let cacheSize = 0;
@@ -290,6 +728,7 @@ export class EmbeddingCache {
       totalEntries: totalResult.rows[0].count,
       validEntries: validResult.rows[0].count,
       staleEntries: staleResult.rows[0].count,
+      mismatchedEntries: mismatchedResult.rows[0].count,
       cacheSize,
     };
   }
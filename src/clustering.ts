@@ -1,3 +1,4 @@
+import path from "path";
 import { HDBSCAN } from "./hdbscan";
 
 export interface FileItem {
@@ -5,12 +6,20 @@ export interface FileItem {
   embedding: number[];
   size: number;
   lastModified: Date;
+  rootDir?: string; // Scan root the file was discovered under
+  strategy?: string; // Extraction strategy the embedding was built from
+  probability?: number; // HDBSCAN membership strength, 0 for noise
 }
 
 export interface Cluster {
   id: number;
+  // Duplicates hold byte-identical files, near-duplicates similar ones
+  kind?: "semantic" | "duplicate" | "near-duplicate";
+  groupNumber?: number; // 1-based within its kind, for (near-)duplicates
   files: FileItem[];
   centroid?: number[];
+  label?: string; // Short human-readable name, see labels.ts
+  keywords?: string[]; // Most distinctive terms, best first
 }
 
 export interface ClusteringOptions {
@@ -23,6 +32,7 @@ export interface AutoClusteringOptions {
   targetClusterCount?: number; // Target number of clusters (optional)
   minClusterSizePercent?: number; // Min cluster size as % of total files
   enableVerbose?: boolean; // Show detailed auto-adjustment info
+  log?: typeof console.log; // Where verbose output goes (default: stdout)
 }
 
 export interface AutoClusteringResult {
@@ -36,7 +46,7 @@ export interface AutoClusteringResult {
 /**
  * Calculate cosine similarity between two vectors
  */
-function cosineSimilarity(a: number[], b: number[]): number {
+export function cosineSimilarity(a: number[], b: number[]): number {
   if (a.length !== b.length) return 0;
 
   let dotProduct = 0;
@@ -89,6 +99,7 @@ export async function clusterFiles(
 
   hdbscan.fit(embeddings);
   const labels = hdbscan.labels_;
+  const probabilities = hdbscan.probabilities_;
 
   // Group files by cluster labels
   const clusterMap = new Map<number, FileItem[]>();
@@ -98,7 +109,10 @@ export async function clusterFiles(
     if (!clusterMap.has(clusterId)) {
       clusterMap.set(clusterId, []);
     }
-    clusterMap.get(clusterId)!.push(files[index]);
+    // Copy so each clustering attempt keeps its own probabilities
+    clusterMap
+      .get(clusterId)!
+      .push({ ...files[index], probability: probabilities[index] });
   });
 
   // Convert to cluster array
@@ -126,7 +140,7 @@ export async function clusterFiles(
 /**
  * Calculate the centroid (mean) of a set of embeddings
  */
-function calculateCentroid(embeddings: number[][]): number[] {
+export function calculateCentroid(embeddings: number[][]): number[] {
   if (embeddings.length === 0) return [];
 
   const dimensions = embeddings[0].length;
@@ -161,6 +175,16 @@ export function formatFileSize(bytes: number): string {
   return `${size.toFixed(1)}${units[unitIndex]}`;
 }
 
+/**
+ * Get the path to show for a file: relative to its scan root when known
+ */
+export function getDisplayPath(file: FileItem): string {
+  if (file.rootDir) {
+    return path.relative(file.rootDir, file.filePath);
+  }
+  return path.basename(file.filePath);
+}
+
 /**
  * Format date in localized format
  */
@@ -261,6 +285,7 @@ export async function autoClusterFiles(
     targetClusterCount,
     minClusterSizePercent = 0.02, // 2% of total files
     enableVerbose = false,
+    log = console.log,
   } = autoOptions;
 
   const totalFiles = files.length;
@@ -275,14 +300,14 @@ export async function autoClusterFiles(
   let bestClusterCount = 0;
 
   if (enableVerbose) {
-    console.log(`🔄 Auto-clustering: Starting with ${totalFiles} files`);
-    console.log(`📊 Target: Balanced clusters with optimal min-cluster-size`);
+    log(`🔄 Auto-clustering: Starting with ${totalFiles} files`);
+    log(`📊 Target: Balanced clusters with optimal min-cluster-size`);
   }
 
   for (let iteration = 1; iteration <= maxIterations; iteration++) {
     // Always show current parameters and results
-    console.log(`\n🔄 Iteration ${iteration}/${maxIterations}`);
-    console.log(`📋 Parameters:`, currentOptions);
+    log(`\n🔄 Iteration ${iteration}/${maxIterations}`);
+    log(`📋 Parameters:`, currentOptions);
 
     // Cluster with current options
     const clusters = await clusterFiles(files, currentOptions);
@@ -296,14 +321,12 @@ export async function autoClusterFiles(
     );
 
     // Always show results
-    console.log(
-      `📊 Results: ${clusters.length} clusters, Score: ${score.toFixed(3)}`,
-    );
-    console.log(`📈 Size distribution:`, analysis.sizeDistribution);
+    log(`📊 Results: ${clusters.length} clusters, Score: ${score.toFixed(3)}`);
+    log(`📈 Size distribution:`, analysis.sizeDistribution);
 
     // Show cluster count analysis
     const clusterRatio = clusters.length / totalFiles;
-    console.log(
+    log(
       `📊 Cluster ratio: ${(clusterRatio * 100).toFixed(1)}% (${
         clusters.length
       }/${totalFiles})`,
@@ -314,7 +337,7 @@ export async function autoClusterFiles(
     const largestClusterPercent = ((largestCluster / totalFiles) * 100).toFixed(
       1,
     );
-    console.log(
+    log(
       `📊 Largest cluster: ${largestCluster} files (${largestClusterPercent}%)`,
     );
 
@@ -329,7 +352,7 @@ export async function autoClusterFiles(
     if (score > 0.85) {
       // Increased from 0.8 to 0.85 for better quality
       if (enableVerbose) {
-        console.log(
+        log(
           `✅ Clustering quality score ${score.toFixed(
             3,
           )} is good enough, stopping`,
@@ -341,7 +364,7 @@ export async function autoClusterFiles(
     // Additional stopping criteria: if we've found a good result and improvements are minimal
     if (bestScore > 0.8 && score < bestScore + 0.02) {
       if (enableVerbose) {
-        console.log(
+        log(
           `✅ Found good clustering (${bestScore.toFixed(
             3,
           )}) with minimal improvement, stopping`,
@@ -353,7 +376,7 @@ export async function autoClusterFiles(
     // If this is the last iteration, don't adjust parameters
     if (iteration === maxIterations) {
       if (enableVerbose) {
-        console.log(`🛑 Reached maximum iterations, using best result`);
+        log(`🛑 Reached maximum iterations, using best result`);
       }
       break;
     }
@@ -372,7 +395,7 @@ export async function autoClusterFiles(
       JSON.stringify(newOptions) !== JSON.stringify(currentOptions);
     if (!hasChanges) {
       if (enableVerbose) {
-        console.log(`🔄 No parameter changes needed, stopping`);
+        log(`🔄 No parameter changes needed, stopping`);
       }
       break;
     }
@@ -382,7 +405,7 @@ export async function autoClusterFiles(
     adjustments.push(`Iteration ${iteration}: ${adjustment}`);
 
     if (enableVerbose) {
-      console.log(`🔧 Adjusting: ${adjustment}`);
+      log(`🔧 Adjusting: ${adjustment}`);
     }
 
     currentOptions = newOptions;
@@ -392,12 +415,12 @@ export async function autoClusterFiles(
   const finalAnalysis = analyzeClusteringResults(bestClusters);
 
   if (enableVerbose) {
-    console.log(
+    log(
       `\n🎯 Final result: ${
         bestClusters.length
       } clusters with score ${bestScore.toFixed(3)}`,
     );
-    console.log(`📊 Final size distribution:`, finalAnalysis.sizeDistribution);
+    log(`📊 Final size distribution:`, finalAnalysis.sizeDistribution);
 
     // Show final insights
     const finalClusterRatio = bestClusters.length / totalFiles;
@@ -407,15 +430,13 @@ export async function autoClusterFiles(
       100
     ).toFixed(1);
 
-    console.log(
-      `📊 Final cluster ratio: ${(finalClusterRatio * 100).toFixed(1)}%`,
-    );
-    console.log(
+    log(`📊 Final cluster ratio: ${(finalClusterRatio * 100).toFixed(1)}%`);
+    log(
       `📊 Final largest cluster: ${finalLargestCluster} files (${finalLargestClusterPercent}%)`,
     );
 
     if (parseFloat(finalLargestClusterPercent) > 15) {
-      console.log(
+      log(
         `⚠️  Note: Large cluster detected (${finalLargestClusterPercent}%) - this may indicate natural grouping in your data`,
       );
     }
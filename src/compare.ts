@@ -0,0 +1,195 @@
+import chalk from "chalk";
+import path from "path";
+import { FileItem, formatDate, formatFileSize } from "./clustering.js";
+import { FileInfo, generateFileInfo } from "./fileinfo.js";
+import {
+  computeSignature,
+  formatSimilarityScores,
+  scorePair,
+} from "./nearduplicates.js";
+
+// Longest content compared line by line; the diff is quadratic
+const MAX_DIFF_LINES = 300;
+// Identical lines kept around each change
+const DIFF_CONTEXT = 2;
+
+type DiffRow =
+  | { type: "same"; left: string; right: string }
+  | { type: "changed"; left?: string; right?: string };
+
+/**
+ * Line diff of two texts (longest common subsequence), with removed and
+ * added lines paired up into side-by-side rows
+ */
+export function diffLines(left: string[], right: string[]): DiffRow[] {
+  // lengths[i][j] = LCS length of left[i..] and right[j..]
+  const lengths = Array.from({ length: left.length + 1 }, () =>
+    new Array<number>(right.length + 1).fill(0),
+  );
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        left[i] === right[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ type: "changed", left: removed[k], right: added[k] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < left.length || j < right.length) {
+    if (i < left.length && j < right.length && left[i] === right[j]) {
+      flush();
+      rows.push({ type: "same", left: left[i], right: right[j] });
+      i++;
+      j++;
+    } else if (
+      j >= right.length ||
+      (i < left.length && lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      removed.push(left[i++]);
+    } else {
+      added.push(right[j++]);
+    }
+  }
+  flush();
+  return rows;
+}
+
+function fitColumn(text: string | undefined, width: number): string {
+  const line = (text ?? "").replace(/\t/g, "  ");
+  return line.length > width
+    ? line.slice(0, width - 1) + "…"
+    : line.padEnd(width);
+}
+
+/**
+ * Print diff rows in two columns, collapsing long runs of identical lines
+ */
+function displaySideBySide(rows: DiffRow[], width: number): void {
+  const nearChange = rows.map((_, index) =>
+    rows
+      .slice(Math.max(0, index - DIFF_CONTEXT), index + DIFF_CONTEXT + 1)
+      .some((row) => row.type === "changed"),
+  );
+
+  let hidden = 0;
+  rows.forEach((row, index) => {
+    if (row.type === "same" && !nearChange[index]) {
+      hidden++;
+      return;
+    }
+    if (hidden > 0) {
+      console.log(chalk.gray(`  ⋯ ${hidden} identical lines`));
+      hidden = 0;
+    }
+    if (row.type === "same") {
+      console.log(
+        chalk.gray(
+          `${fitColumn(row.left, width)} │ ${fitColumn(row.right, width)}`,
+        ),
+      );
+    } else {
+      console.log(
+        `${chalk.red(fitColumn(row.left, width))} │ ${chalk.green(
+          fitColumn(row.right, width),
+        )}`,
+      );
+    }
+  });
+  if (hidden > 0) {
+    console.log(chalk.gray(`  ⋯ ${hidden} identical lines`));
+  }
+}
+
+/**
+ * Compare two files side by side: metadata, similarity scores and a diff of
+ * their extracted content (metadata for images and other binary files)
+ */
+export async function displayFileComparison(
+  a: FileItem,
+  b: FileItem,
+): Promise<void> {
+  console.log(chalk.blue.bold("\n=== File Comparison ==="));
+
+  let infoA: FileInfo;
+  let infoB: FileInfo;
+  try {
+    [infoA, infoB] = await Promise.all([
+      generateFileInfo(a.filePath),
+      generateFileInfo(b.filePath),
+    ]);
+  } catch (error) {
+    console.log(chalk.red(`Error reading files: ${error}`));
+    return;
+  }
+
+  const width = Math.max(
+    20,
+    Math.floor(((process.stdout.columns || 100) - 3) / 2),
+  );
+  const fields: Array<[string, string, string]> = [
+    ["Name", infoA.filename, infoB.filename],
+    ["Folder", path.dirname(a.filePath), path.dirname(b.filePath)],
+    ["Size", formatFileSize(infoA.size), formatFileSize(infoB.size)],
+    [
+      "Modified",
+      formatDate(infoA.lastModified),
+      formatDate(infoB.lastModified),
+    ],
+    ["Strategy", a.strategy ?? infoA.strategy, b.strategy ?? infoB.strategy],
+  ];
+  for (const [label, left, right] of fields) {
+    const color = left === right ? chalk.gray : chalk.yellow;
+    console.log(
+      color(
+        `${fitColumn(`${label}: ${left}`, width)} │ ${fitColumn(
+          `${label}: ${right}`,
+          width,
+        )}`,
+      ),
+    );
+  }
+
+  // Similarity by every signal available for both files, whether or not it
+  // reached its threshold
+  const [signatureA, signatureB] = await Promise.all([
+    computeSignature(a, async () => infoA.content),
+    computeSignature(b, async () => infoB.content),
+  ]);
+  const scores = scorePair(a, b, signatureA, signatureB, {
+    embeddingThreshold: -1,
+    imageThreshold: 0,
+    textThreshold: 0,
+  });
+  console.log(
+    chalk.cyan(
+      `\nSimilarity: ${
+        formatSimilarityScores(scores) || "no signals available"
+      }`,
+    ),
+  );
+
+  console.log(chalk.blue("\n--- Content ---"));
+  if (infoA.content === infoB.content) {
+    console.log(chalk.gray("Contents are identical"));
+  } else {
+    const rows = diffLines(
+      infoA.content.split("\n").slice(0, MAX_DIFF_LINES),
+      infoB.content.split("\n").slice(0, MAX_DIFF_LINES),
+    );
+    displaySideBySide(rows, width);
+  }
+  console.log(chalk.blue("--- End Content ---"));
+}
@@ -0,0 +1,261 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { ToolInfo } from "./fileinfo.js";
+
+/**
+ * Config file names, in the order they are looked for
+ */
+export const CONFIG_FILE_NAMES = [".triagerc", "triage.config.json"];
+
+export interface TriageConfig {
+  strategies: ToolInfo[]; // Extra extraction strategies
+}
+
+const CONFIG_KEYS = ["strategies"];
+const STRATEGY_KEYS = [
+  "name",
+  "command",
+  "args",
+  "description",
+  "match",
+  "priority",
+  "timeout",
+  "validate",
+];
+const MATCH_KEYS = ["extensions", "mimeTypes", "fileTypes"];
+const VALIDATE_KEYS = ["minLength", "mustContain"];
+
+/**
+ * Find the config file to use: the first of CONFIG_FILE_NAMES in the
+ * current directory, then in the home directory
+ */
+export async function findConfigFile(): Promise<string | null> {
+  for (const directory of [process.cwd(), os.homedir()]) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const configPath = path.join(directory, name);
+      try {
+        await fs.access(configPath);
+        return configPath;
+      } catch (error) {
+        // Not here
+      }
+    }
+  }
+  return null;
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => typeof item === "string" && item !== "")
+  );
+}
+
+function checkKeys(
+  value: object,
+  allowed: string[],
+  where: string,
+  errors: string[],
+): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      errors.push(
+        `${where}: unknown key "${key}" (expected ${allowed.join(", ")})`,
+      );
+    }
+  }
+}
+
+/**
+ * Check one strategy declaration, collecting its problems in `errors`
+ */
+function parseStrategy(
+  strategy: any,
+  where: string,
+  errors: string[],
+): ToolInfo | null {
+  if (
+    typeof strategy !== "object" ||
+    strategy === null ||
+    Array.isArray(strategy)
+  ) {
+    errors.push(`${where}: must be an object`);
+    return null;
+  }
+  const errorCount = errors.length;
+  checkKeys(strategy, STRATEGY_KEYS, where, errors);
+
+  if (typeof strategy.name !== "string" || strategy.name.trim() === "") {
+    errors.push(`${where}: name must be a non-empty string`);
+  }
+  if (typeof strategy.command !== "string" || strategy.command.trim() === "") {
+    errors.push(`${where}: command must be a non-empty string`);
+  }
+  if (!Array.isArray(strategy.args) || !strategy.args.every(isString)) {
+    errors.push(`${where}: args must be an array of strings`);
+  } else if (!strategy.args.some((arg: string) => arg.includes("FILEPATH"))) {
+    errors.push(`${where}: args must contain FILEPATH where the file goes`);
+  }
+  if (
+    strategy.description !== undefined &&
+    typeof strategy.description !== "string"
+  ) {
+    errors.push(`${where}: description must be a string`);
+  }
+  if (
+    strategy.priority !== undefined &&
+    (typeof strategy.priority !== "number" ||
+      !Number.isFinite(strategy.priority))
+  ) {
+    errors.push(`${where}: priority must be a number`);
+  }
+  if (
+    strategy.timeout !== undefined &&
+    (!Number.isInteger(strategy.timeout) || strategy.timeout <= 0)
+  ) {
+    errors.push(`${where}: timeout must be a positive number of milliseconds`);
+  }
+
+  const match = strategy.match;
+  if (typeof match !== "object" || match === null || Array.isArray(match)) {
+    errors.push(
+      `${where}: match must be an object with extensions, mimeTypes or fileTypes`,
+    );
+  } else {
+    checkKeys(match, MATCH_KEYS, `${where}.match`, errors);
+    for (const key of MATCH_KEYS) {
+      if (match[key] !== undefined && !isStringArray(match[key])) {
+        errors.push(
+          `${where}.match.${key}: must be an array of non-empty strings`,
+        );
+      }
+    }
+    if (MATCH_KEYS.every((key) => match[key] === undefined)) {
+      errors.push(
+        `${where}.match: needs at least one of ${MATCH_KEYS.join(", ")}`,
+      );
+    }
+    if (
+      isStringArray(match.extensions) &&
+      !match.extensions.every((extension: string) => extension.startsWith("."))
+    ) {
+      errors.push(
+        `${where}.match.extensions: must start with a dot, e.g. ".epub"`,
+      );
+    }
+  }
+
+  const validate = strategy.validate ?? {};
+  const mustContain: RegExp[] = [];
+  if (typeof validate !== "object" || Array.isArray(validate)) {
+    errors.push(`${where}: validate must be an object`);
+  } else {
+    checkKeys(validate, VALIDATE_KEYS, `${where}.validate`, errors);
+    if (
+      validate.minLength !== undefined &&
+      (!Number.isInteger(validate.minLength) || validate.minLength < 0)
+    ) {
+      errors.push(
+        `${where}.validate.minLength: must be a non-negative integer`,
+      );
+    }
+    if (validate.mustContain !== undefined) {
+      if (!isStringArray(validate.mustContain)) {
+        errors.push(
+          `${where}.validate.mustContain: must be an array of regular expressions`,
+        );
+      } else {
+        for (const pattern of validate.mustContain) {
+          try {
+            mustContain.push(new RegExp(pattern));
+          } catch (error) {
+            errors.push(
+              `${where}.validate.mustContain: ${
+                error instanceof Error ? error.message : error
+              }`,
+            );
+          }
+        }
+      }
+    }
+  }
+
+  if (errors.length > errorCount) {
+    return null;
+  }
+  return {
+    name: strategy.name,
+    command: strategy.command,
+    args: strategy.args,
+    description: strategy.description ?? `${strategy.name} output`,
+    priority: strategy.priority,
+    timeout: strategy.timeout,
+    match: {
+      extensions: match.extensions?.map((e: string) => e.toLowerCase()),
+      mimeTypes: match.mimeTypes?.map((t: string) => t.toLowerCase()),
+      fileTypes: match.fileTypes?.map((t: string) => t.toLowerCase()),
+    },
+    validators: { minLength: validate.minLength, mustContain },
+  };
+}
+
+/**
+ * Read a config file (JSON, whatever its name) and check its structure
+ * Throws with every problem found, so the file can be fixed in one pass
+ */
+export async function readConfig(configPath: string): Promise<TriageConfig> {
+  let config: any;
+  try {
+    config = JSON.parse(await fs.readFile(configPath, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Could not read config ${configPath}: ${
+        error instanceof Error ? error.message : error
+      }`,
+    );
+  }
+
+  const errors: string[] = [];
+  const strategies: ToolInfo[] = [];
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    errors.push("Config must be a JSON object");
+  } else {
+    checkKeys(config, CONFIG_KEYS, "config", errors);
+    if (config.strategies !== undefined && !Array.isArray(config.strategies)) {
+      errors.push("strategies must be an array");
+    }
+
+    const names = new Set<string>();
+    (Array.isArray(config.strategies) ? config.strategies : []).forEach(
+      (declaration: any, index: number) => {
+        const strategy = parseStrategy(
+          declaration,
+          `strategies[${index}]`,
+          errors,
+        );
+        if (!strategy) return;
+        if (names.has(strategy.name)) {
+          errors.push(
+            `strategies[${index}]: name "${strategy.name}" is used twice`,
+          );
+        }
+        names.add(strategy.name);
+        strategies.push(strategy);
+      },
+    );
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid config ${configPath}:\n${errors
+        .map((e) => `  - ${e}`)
+        .join("\n")}`,
+    );
+  }
+  return { strategies };
+}
@@ -0,0 +1,119 @@
+import chalk from "chalk";
+import { promises as fs, Stats } from "fs";
+import path from "path";
+import {
+  compileGlobs,
+  IgnoreRule,
+  isIgnored,
+  loadIgnoreRules,
+  matchesAnyPattern,
+} from "./ignore.js";
+
+export interface DiscoveryOptions {
+  recursive?: boolean;
+  maxDepth?: number; // Maximum directory depth below the root (0 = root only)
+  include?: string[]; // Globs a file must match (relative to the root)
+  exclude?: string[]; // Globs for files and directories to skip
+  useIgnoreFiles?: boolean; // Honor .triageignore files (default: true)
+  skipDirs?: string[]; // Absolute directories never scanned, e.g. the trash
+}
+
+export interface DiscoveredFile {
+  file: string; // Path relative to the scan root
+  filePath: string; // Absolute path
+  stats: Stats;
+}
+
+/**
+ * Discover candidate files under a root directory
+ * Skips hidden files, hidden directories, and empty files
+ * Only descends into subdirectories when `recursive` is enabled
+ * Applies `.triageignore` rules per directory, then --include/--exclude globs
+ * Never descends into `skipDirs`, so files already deleted to a trash or
+ * quarantine folder inside the root aren't offered again
+ */
+export async function discoverFiles(
+  rootDir: string,
+  options: DiscoveryOptions = {},
+): Promise<DiscoveredFile[]> {
+  const {
+    recursive = false,
+    maxDepth = Infinity,
+    include = [],
+    exclude = [],
+    useIgnoreFiles = true,
+    skipDirs = [],
+  } = options;
+  const skippedDirs = new Set(skipDirs.map((dir) => path.resolve(dir)));
+  const includeRules = compileGlobs(include);
+  const excludeRules = compileGlobs(exclude);
+  const discovered: DiscoveredFile[] = [];
+
+  async function walk(
+    dirPath: string,
+    depth: number,
+    inheritedRules: IgnoreRule[],
+  ): Promise<void> {
+    // Rules from this directory's ignore file apply after those of its parents
+    const rules = useIgnoreFiles
+      ? [
+          ...inheritedRules,
+          ...(await loadIgnoreRules(
+            dirPath,
+            path.relative(rootDir, dirPath).split(path.sep).join("/"),
+          )),
+        ]
+      : inheritedRules;
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(dirPath);
+    } catch (error) {
+      console.error(chalk.red(`Error reading directory ${dirPath}: ${error}`));
+      return;
+    }
+
+    entries.sort();
+
+    for (const entry of entries) {
+      if (entry.startsWith(".")) continue; // Skip hidden files and directories
+
+      const filePath = path.join(dirPath, entry);
+      const relativePath = path.relative(rootDir, filePath);
+      try {
+        const linkStats = await fs.lstat(filePath);
+        const stats = linkStats.isSymbolicLink()
+          ? await fs.stat(filePath)
+          : linkStats;
+
+        if (stats.isDirectory()) {
+          // Symlinked directories are never followed to avoid cycles
+          if (!recursive || linkStats.isSymbolicLink()) continue;
+          if (depth >= maxDepth) continue;
+          if (skippedDirs.has(filePath)) continue;
+          if (isIgnored(relativePath, true, rules)) continue;
+          if (matchesAnyPattern(relativePath, true, excludeRules)) continue;
+          await walk(filePath, depth + 1, rules);
+          continue;
+        }
+
+        if (!stats.isFile()) continue; // Skip sockets, FIFOs, devices
+        if (stats.size === 0) continue; // Skip empty files
+        if (isIgnored(relativePath, false, rules)) continue;
+        if (matchesAnyPattern(relativePath, false, excludeRules)) continue;
+        if (
+          includeRules.length > 0 &&
+          !matchesAnyPattern(relativePath, false, includeRules)
+        ) {
+          continue;
+        }
+        discovered.push({ file: relativePath, filePath, stats });
+      } catch (error) {
+        console.error(chalk.red(`Error checking ${relativePath}: ${error}`));
+      }
+    }
+  }
+
+  await walk(rootDir, 0, []);
+  return discovered;
+}
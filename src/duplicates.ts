@@ -0,0 +1,160 @@
+import path from "path";
+import { EmbeddingCache } from "./cache.js";
+import { Cluster, FileItem } from "./clustering.js";
+import { hashFile, hashFilePartial } from "./hasher.js";
+
+export type KeepStrategy = "newest" | "oldest" | "shortest-path";
+
+/**
+ * Byte-identical files, as found by findDuplicateGroups
+ */
+export interface DuplicateGroup {
+  hash: string; // Full content hash, see HASH_ALGORITHM
+  size: number; // Size of each copy
+  files: FileItem[];
+}
+
+/**
+ * Group files into buckets by a key, keeping only buckets with more than
+ * one file. Files whose key can't be computed (e.g. vanished) are dropped
+ */
+async function bucketBy(
+  files: FileItem[],
+  getKey: (file: FileItem) => Promise<string>,
+): Promise<FileItem[][]> {
+  const buckets = new Map<string, FileItem[]>();
+  for (const file of files) {
+    let key: string;
+    try {
+      key = await getKey(file);
+    } catch (error) {
+      continue;
+    }
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(file);
+    } else {
+      buckets.set(key, [file]);
+    }
+  }
+  return [...buckets.values()].filter((bucket) => bucket.length > 1);
+}
+
+/**
+ * Find groups of byte-identical files
+ * Files are narrowed down by size, then by a partial hash of sampled bytes, and
+ * only the remaining candidates are hashed in full. Full hashes stored in
+ * the embedding cache are reused while they are still current
+ */
+export async function findDuplicateGroups(
+  files: FileItem[],
+  onProgress?: (current: number, total: number) => void,
+): Promise<DuplicateGroup[]> {
+  // Empty files are all "identical" but not worth reporting
+  const sizeBuckets = await bucketBy(
+    files.filter((file) => file.size > 0),
+    async (file) => file.size.toString(),
+  );
+
+  const partialBuckets: FileItem[][] = [];
+  for (const bucket of sizeBuckets) {
+    partialBuckets.push(
+      ...(await bucketBy(bucket, (file) => hashFilePartial(file.filePath))),
+    );
+  }
+
+  // One cache per scan root, opened on first use
+  const caches = new Map<string, EmbeddingCache>();
+  const getFullHash = async (file: FileItem): Promise<string> => {
+    const rootDir = file.rootDir ?? path.dirname(file.filePath);
+    let cache = caches.get(rootDir);
+    if (!cache) {
+      cache = new EmbeddingCache(rootDir);
+      await cache.initialize();
+      caches.set(rootDir, cache);
+    }
+    return (
+      (await cache.getStoredHash(file.filePath)) ??
+      (await hashFile(file.filePath))
+    );
+  };
+
+  const total = partialBuckets.reduce((sum, bucket) => sum + bucket.length, 0);
+  let completed = 0;
+  const groups: DuplicateGroup[] = [];
+  try {
+    for (const bucket of partialBuckets) {
+      const hashes = new Map<FileItem, string>();
+      const identical = await bucketBy(bucket, async (file) => {
+        try {
+          const hash = await getFullHash(file);
+          hashes.set(file, hash);
+          return hash;
+        } finally {
+          onProgress?.(++completed, total);
+        }
+      });
+      for (const group of identical) {
+        groups.push({
+          hash: hashes.get(group[0])!,
+          size: group[0].size,
+          files: group,
+        });
+      }
+    }
+  } finally {
+    for (const cache of caches.values()) {
+      await cache.close();
+    }
+  }
+
+  // Most wasted space first
+  return groups.sort(
+    (a, b) => b.size * (b.files.length - 1) - a.size * (a.files.length - 1),
+  );
+}
+
+/**
+ * Turn duplicate groups into clusters to triage ahead of the semantic ones
+ * Ids are negative (from -2 down) so they never collide with HDBSCAN ids
+ */
+export function duplicateGroupsToClusters(groups: DuplicateGroup[]): Cluster[] {
+  return groups.map((group, index) => ({
+    id: -(index + 2),
+    kind: "duplicate",
+    groupNumber: index + 1,
+    files: group.files,
+  }));
+}
+
+/**
+ * Pick the copy to keep from a set of identical files
+ */
+export function chooseFileToKeep(
+  files: FileItem[],
+  strategy: KeepStrategy,
+): FileItem {
+  const compare = (a: FileItem, b: FileItem): number => {
+    switch (strategy) {
+      case "newest":
+        return b.lastModified.getTime() - a.lastModified.getTime();
+      case "oldest":
+        return a.lastModified.getTime() - b.lastModified.getTime();
+      case "shortest-path":
+        return a.filePath.length - b.filePath.length;
+    }
+  };
+  return [...files].sort(
+    (a, b) => compare(a, b) || a.filePath.localeCompare(b.filePath),
+  )[0];
+}
+
+/**
+ * Bytes that would be freed by keeping one copy of each group
+ */
+export function getReclaimableBytes(groups: DuplicateGroup[]): number {
+  return groups.reduce(
+    (sum, group) => sum + group.size * (group.files.length - 1),
+    0,
+  );
+}
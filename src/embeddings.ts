@@ -1,17 +1,40 @@
-import { exec } from "child_process";
-import OpenAI from "openai";
 import pLimit from "p-limit";
 import path from "path";
 import { encoding_for_model } from "tiktoken";
-import { promisify } from "util";
-import { EmbeddingCache } from "./cache.js";
 import {
+  CachedChunk,
+  CachedEmbeddingResult,
+  ContentRedaction,
+  EmbeddingCache,
+  EmbeddingProvenance,
+} from "./cache.js";
+import {
+  BASIC_METADATA_STRATEGY,
   detectAvailableTools,
+  EXTRACTION_PIPELINE_VERSION,
   executeStrategy,
+  getConfiguredStrategyVersions,
   getStrategiesForFile,
+  getValidationFailureReason,
+  splitIntoTokenWindows,
+  TextChunk,
 } from "./fileinfo.js";
-
-const execAsync = promisify(exec);
+import { runCommand, toCommandPath } from "./process.js";
+import { EmbeddingProvider } from "./providers.js";
+import {
+  RedactionCounts,
+  RedactionMode,
+  REDACTION_MODES,
+  redactSecrets,
+} from "./redaction.js";
+import {
+  AdaptiveConcurrency,
+  classifyError,
+  DEFAULT_RETRY_OPTIONS,
+  ErrorClass,
+  RetryOptions,
+  withRetry,
+} from "./retry.js";
 
 // OpenAI embedding model token limits
 const EMBEDDING_MODEL_MAX_TOKENS = 8192;
@@ -19,13 +42,142 @@ const EMBEDDING_MODEL_SAFETY_MARGIN = 100; // Leave some buffer
 const EMBEDDING_MODEL_TARGET_TOKENS =
   EMBEDDING_MODEL_MAX_TOKENS - EMBEDDING_MODEL_SAFETY_MARGIN;
 
-interface ToolInfo {
-  name: string;
-  command: string;
-  args: string[];
-  description: string;
-  validation?: (output: string) => boolean; // Optional validation function
-  priority?: number; // Optional priority (higher numbers = higher priority)
+// Maximum number of embedding requests in flight at once
+const EMBEDDING_BATCH_CONCURRENCY = 4;
+
+/**
+ * How long documents are embedded:
+ * - off: truncate to the model's token limit and embed once
+ * - mean: embed overlapping windows and average them
+ * - weighted: like mean, but weight each window by its token count
+ */
+export type ChunkingMode = "off" | "mean" | "weighted";
+
+export const CHUNKING_MODES: ChunkingMode[] = ["off", "mean", "weighted"];
+
+export interface ChunkingOptions {
+  mode: ChunkingMode;
+  chunkTokens: number; // Tokens per window
+  overlapTokens: number; // Tokens shared by consecutive windows
+  maxChunks: number; // Windows per file; text beyond them is dropped
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  mode: "off",
+  chunkTokens: 2048,
+  overlapTokens: 256,
+  maxChunks: 16,
+};
+
+export interface EmbeddingServiceOptions {
+  retry?: Partial<RetryOptions>;
+  chunking?: Partial<ChunkingOptions>;
+  redaction?: RedactionMode;
+}
+
+export interface FileEmbeddingResult {
+  filePath: string;
+  embedding: number[];
+  strategy: string;
+  error?: string;
+  errorClass?: ErrorClass;
+  fromCache?: boolean;
+}
+
+/**
+ * The text to embed for a file, as produced by extraction
+ */
+export interface ExtractedContent {
+  content: string;
+  strategy: string;
+  tokenCount: number; // Sum over chunks when the file is chunked
+  chunks?: TextChunk[]; // Present when the file is embedded as several windows
+  redactions?: RedactionCounts; // Sensitive matches removed before embedding
+}
+
+export interface PreparedFile extends ExtractedContent {
+  index: number; // Position in the caller's file list
+  filePath: string;
+}
+
+/**
+ * A single text sent to the provider: a whole file or one of its chunks
+ */
+interface EmbeddingInput {
+  file: PreparedFile;
+  chunkIndex: number;
+  text: string;
+  tokenCount: number;
+}
+
+/**
+ * Outcome of the extraction phase for a list of files
+ */
+export interface EmbeddingPlan {
+  results: FileEmbeddingResult[]; // Filled in for cached and failed files
+  pending: PreparedFile[]; // Extracted files that still need an embedding
+  completedCount: number;
+  totalFiles: number;
+}
+
+/**
+ * Record the final result for a file and report progress
+ */
+function completePlanEntry(
+  plan: EmbeddingPlan,
+  index: number,
+  result: FileEmbeddingResult,
+  onProgress?: (current: number, total: number) => void,
+): void {
+  plan.results[index] = result;
+  plan.completedCount++;
+
+  // Call progress callback if provided
+  if (onProgress) {
+    onProgress(plan.completedCount, plan.totalFiles);
+  }
+}
+
+/**
+ * Build the result entry for a file that could not be embedded
+ */
+function errorResult(
+  filePath: string,
+  error: unknown,
+  errorClass: ErrorClass = classifyError(error),
+): FileEmbeddingResult {
+  return {
+    filePath,
+    embedding: [],
+    strategy: "error",
+    error: error instanceof Error ? error.message : String(error),
+    errorClass,
+    fromCache: false,
+  };
+}
+
+/**
+ * Combine per-chunk vectors into one L2-normalized file vector
+ */
+function poolChunkEmbeddings(
+  vectors: number[][],
+  chunks: TextChunk[],
+  mode: ChunkingMode,
+): number[] {
+  const pooled = new Array(vectors[0].length).fill(0);
+  let totalWeight = 0;
+
+  vectors.forEach((vector, i) => {
+    const weight = mode === "weighted" ? chunks[i].tokenCount : 1;
+    totalWeight += weight;
+    for (let d = 0; d < vector.length; d++) {
+      pooled[d] += vector[d] * weight;
+    }
+  });
+
+  const mean = pooled.map((v) => v / totalWeight);
+  const norm = Math.sqrt(mean.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? mean : mean.map((v) => v / norm);
 }
 
 /**
@@ -34,17 +186,99 @@ interface ToolInfo {
  * Now includes integrated caching to avoid re-embedding files that are already cached
  */
 export class EmbeddingService {
-  private openai: OpenAI;
+  private provider: EmbeddingProvider;
   private verboseToolLogging = false;
   private cache: EmbeddingCache | null = null;
   private cacheDirectory: string | null = null;
   private useFastCache: boolean = true;
-
-  constructor(apiKey?: string, verboseToolLogging = false) {
-    this.openai = new OpenAI({
-      apiKey: apiKey || process.env.OPENAI_API_KEY,
-    });
+  private retryOptions: RetryOptions;
+  private chunking: ChunkingOptions;
+  private redactionMode: RedactionMode;
+
+  constructor(
+    provider: EmbeddingProvider,
+    verboseToolLogging = false,
+    options: EmbeddingServiceOptions = {},
+  ) {
+    this.provider = provider;
     this.verboseToolLogging = verboseToolLogging;
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.chunking = { ...DEFAULT_CHUNKING_OPTIONS, ...options.chunking };
+    this.redactionMode = options.redaction ?? "mask";
+
+    if (!REDACTION_MODES.includes(this.redactionMode)) {
+      throw new Error(
+        `Unknown redaction mode "${
+          this.redactionMode
+        }". Expected one of: ${REDACTION_MODES.join(", ")}`,
+      );
+    }
+
+    const { chunkTokens, overlapTokens, maxChunks } = this.chunking;
+    if (!CHUNKING_MODES.includes(this.chunking.mode)) {
+      throw new Error(
+        `Unknown chunking mode "${
+          this.chunking.mode
+        }". Expected one of: ${CHUNKING_MODES.join(", ")}`,
+      );
+    }
+    if (isNaN(chunkTokens) || chunkTokens <= 0) {
+      throw new Error("Chunk size must be a positive integer");
+    }
+    if (chunkTokens > EMBEDDING_MODEL_TARGET_TOKENS) {
+      throw new Error(
+        `Chunk size must not exceed ${EMBEDDING_MODEL_TARGET_TOKENS} tokens`,
+      );
+    }
+    if (
+      isNaN(overlapTokens) ||
+      overlapTokens < 0 ||
+      overlapTokens >= chunkTokens
+    ) {
+      throw new Error(
+        "Chunk overlap must be at least 0 and less than the chunk size",
+      );
+    }
+    if (isNaN(maxChunks) || maxChunks <= 0) {
+      throw new Error("Maximum chunks must be a positive integer");
+    }
+  }
+
+  /**
+   * Get the embedding provider used by this service
+   */
+  getProvider(): EmbeddingProvider {
+    return this.provider;
+  }
+
+  /**
+   * Get how sensitive content is handled before embedding
+   */
+  getRedactionMode(): RedactionMode {
+    return this.redactionMode;
+  }
+
+  /**
+   * Describe how embeddings from this service are produced
+   */
+  getProvenance(): EmbeddingProvenance {
+    const { mode, chunkTokens, overlapTokens, maxChunks } = this.chunking;
+    let pipelineVersion = EXTRACTION_PIPELINE_VERSION;
+    // Chunked vectors are not comparable with truncated ones
+    if (mode !== "off") {
+      pipelineVersion += `+chunk:${mode}:${chunkTokens}/${overlapTokens}/${maxChunks}`;
+    }
+
+    // Neither are vectors of redacted and raw content; the cache compares
+    // the mode only for entries whose content had something to redact.
+    // Nor is text extracted by a configured strategy that has since changed
+    return {
+      model: `${this.provider.name}:${this.provider.model}`,
+      dimensions: this.provider.dimensions,
+      pipelineVersion,
+      redaction: this.redactionMode,
+      strategyVersions: getConfiguredStrategyVersions(),
+    };
   }
 
   /**
@@ -57,7 +291,13 @@ export class EmbeddingService {
   ): Promise<void> {
     this.cacheDirectory = directory;
     this.useFastCache = useFastCache;
-    this.cache = new EmbeddingCache(directory, useFastCache);
+    // The versions of the configured strategies are only known once detected
+    await detectAvailableTools();
+    this.cache = new EmbeddingCache(
+      directory,
+      useFastCache,
+      this.getProvenance(),
+    );
     await this.cache.initialize();
   }
 
@@ -68,6 +308,7 @@ export class EmbeddingService {
     totalEntries: number;
     validEntries: number;
     staleEntries: number;
+    mismatchedEntries: number;
     cacheSize: number;
   } | null> {
     if (!this.cache) {
@@ -86,7 +327,53 @@ export class EmbeddingService {
     if (!this.cache) {
       return null;
     }
-    return await this.cache.getCachedEmbedding(filePath);
+    return (await this.lookUpCachedEmbedding(filePath)).cached;
+  }
+
+  /**
+   * Look up a file's cached embedding
+   * Entries embedded from content that was never scanned for sensitive data
+   * (with --redact off, or before redaction existed) are only reused when a
+   * scan of the file finds nothing now. Otherwise the content extracted for
+   * the scan is returned so it doesn't need extracting again
+   */
+  private async lookUpCachedEmbedding(filePath: string): Promise<{
+    cached: CachedEmbeddingResult | null;
+    extracted?: ExtractedContent;
+  }> {
+    const cached = await this.cache!.getCachedEmbedding(filePath);
+    if (!cached || cached.redaction !== null || this.redactionMode === "off") {
+      return { cached };
+    }
+
+    const extracted = await this.extractFileContent(filePath);
+    if (extracted.redactions) {
+      return { cached: null, extracted };
+    }
+    await this.cache!.markContentScanned(filePath);
+    return { cached: { ...cached, redaction: "none" } };
+  }
+
+  /**
+   * How the content of an extracted file was screened, for the cache
+   */
+  private getContentRedaction(file: ExtractedContent): ContentRedaction {
+    if (this.redactionMode === "off") {
+      return null;
+    }
+    return file.redactions ? this.redactionMode : "none";
+  }
+
+  /**
+   * Get the per-chunk embeddings cached for a file
+   * Empty unless the file was embedded in chunking mode and needed more than
+   * one window
+   */
+  async getCachedChunks(filePath: string): Promise<CachedChunk[]> {
+    if (!this.cache) {
+      return [];
+    }
+    return await this.cache.getCachedChunks(filePath);
   }
 
   /**
@@ -125,266 +412,458 @@ export class EmbeddingService {
 
   /**
    * Generate embeddings for multiple files with integrated caching
+   * Cache lookups and content extraction run concurrently; uncached texts are
+   * then packed into multi-input requests within the provider's limits
    */
   async getFileEmbeddings(
     filePaths: string[],
     onProgress?: (current: number, total: number) => void,
-  ): Promise<
-    Array<{
-      filePath: string;
-      embedding: number[];
-      strategy: string;
-      error?: string;
-      fromCache?: boolean;
-    }>
-  > {
-    // Create a limiter that allows max 100 concurrent operations
-    const limit = pLimit(100);
-
-    let completedCount = 0;
-    const totalFiles = filePaths.length;
+  ): Promise<FileEmbeddingResult[]> {
+    const plan = await this.prepareEmbeddings(filePaths, onProgress);
+    return await this.embedPreparedFiles(plan, onProgress);
+  }
 
-    // Create an array of promises for parallel processing
-    const promises = filePaths.map((filePath) =>
-      limit(async () => {
-        try {
-          const result = await this.getFileEmbedding(filePath);
-          completedCount++;
+  /**
+   * Resolve cached files and extract content for the rest, without calling
+   * the embedding provider. The returned plan can be inspected (e.g. for a
+   * cost estimate) before being passed to `embedPreparedFiles`.
+   */
+  async prepareEmbeddings(
+    filePaths: string[],
+    onProgress?: (current: number, total: number) => void,
+  ): Promise<EmbeddingPlan> {
+    // Create a limiter that allows max 100 concurrent extractions
+    const limit = pLimit(100);
 
-          // Call progress callback if provided
-          if (onProgress) {
-            onProgress(completedCount, totalFiles);
-          }
+    const plan: EmbeddingPlan = {
+      results: new Array(filePaths.length),
+      pending: [],
+      completedCount: 0,
+      totalFiles: filePaths.length,
+    };
+
+    await Promise.all(
+      filePaths.map((filePath, index) =>
+        limit(async () => {
+          try {
+            let extracted: ExtractedContent | undefined;
+            if (this.cache) {
+              const lookup = await this.lookUpCachedEmbedding(filePath);
+              const cachedResult = lookup.cached;
+              extracted = lookup.extracted;
+              if (cachedResult) {
+                completePlanEntry(
+                  plan,
+                  index,
+                  {
+                    filePath,
+                    embedding: cachedResult.embedding,
+                    strategy: cachedResult.strategy,
+                    fromCache: true,
+                  },
+                  onProgress,
+                );
+                return;
+              }
+            }
 
-          return {
-            filePath,
-            embedding: result.embedding,
-            strategy: result.strategy,
-            fromCache: result.fromCache,
-          };
-        } catch (error) {
-          completedCount++;
-
-          // Call progress callback if provided
-          if (onProgress) {
-            onProgress(completedCount, totalFiles);
+            extracted ??= await this.extractFileContent(filePath);
+            plan.pending.push({ index, filePath, ...extracted });
+          } catch (error) {
+            completePlanEntry(
+              plan,
+              index,
+              errorResult(filePath, error, "extraction"),
+              onProgress,
+            );
           }
-
-          const errorMessage =
-            error instanceof Error ? error.message : String(error);
-          return {
-            filePath,
-            embedding: [],
-            strategy: "error",
-            error: errorMessage,
-            fromCache: false,
-          };
-        }
-      }),
+        }),
+      ),
     );
 
-    // Wait for all promises to resolve
-    const results = await Promise.all(promises);
-    return results;
+    return plan;
   }
 
   /**
-   * Generate an embedding for a file by extracting its content using the unified file info system
-   * Now includes integrated caching to avoid re-embedding files that are already cached
+   * Embed the pending files of a plan and return results for every file
    */
-  async getFileEmbedding(
-    filePath: string,
-  ): Promise<{ embedding: number[]; strategy: string; fromCache: boolean }> {
-    try {
-      // Check cache first if available
-      if (this.cache) {
-        const cachedResult = await this.cache.getCachedEmbedding(filePath);
-        if (cachedResult) {
-          return {
-            embedding: cachedResult.embedding,
-            strategy: cachedResult.strategy,
-            fromCache: true,
-          };
-        }
+  async embedPreparedFiles(
+    plan: EmbeddingPlan,
+    onProgress?: (current: number, total: number) => void,
+  ): Promise<FileEmbeddingResult[]> {
+    const { results } = plan;
+    const complete = (index: number, result: FileEmbeddingResult) =>
+      completePlanEntry(plan, index, result, onProgress);
+
+    // Chunked files contribute one input per window; their vectors are
+    // collected here until every window has come back
+    const inputs: EmbeddingInput[] = [];
+    const chunkVectors = new Map<number, (number[] | undefined)[]>();
+    for (const file of plan.pending) {
+      if (file.chunks) {
+        chunkVectors.set(file.index, new Array(file.chunks.length));
+        file.chunks.forEach((chunk, chunkIndex) =>
+          inputs.push({
+            file,
+            chunkIndex,
+            text: chunk.text,
+            tokenCount: chunk.tokenCount,
+          }),
+        );
+      } else {
+        inputs.push({
+          file,
+          chunkIndex: 0,
+          text: file.content,
+          tokenCount: file.tokenCount,
+        });
       }
+    }
 
-      // Ensure tools are detected before proceeding
-      await detectAvailableTools();
-
-      // Get file extension and detected type
-      const ext = path.extname(filePath).toLowerCase();
-
-      // Detect file type using the 'file' command
-      let detectedType = "";
-      try {
-        const { stdout } = await execAsync(`file "${filePath}"`);
-        detectedType = stdout.trim();
-
-        // Check if 'file' command couldn't determine the type
-        if (
-          detectedType.endsWith(": data") ||
-          detectedType.includes(": data")
-        ) {
-          detectedType = "data"; // Mark as unknown type
+    const failed = new Set<number>();
+    const fail = (file: PreparedFile, error: unknown) => {
+      if (failed.has(file.index)) return;
+      failed.add(file.index);
+      complete(file.index, errorResult(file.filePath, error));
+    };
+
+    const finish = async (file: PreparedFile, embedding: number[]) => {
+      let cachedChunks: CachedChunk[] | undefined;
+      if (file.chunks) {
+        const vectors = chunkVectors.get(file.index)!;
+        if (vectors.some((vector) => !vector)) {
+          return; // Still waiting for other windows
         }
-      } catch (error) {
-        // If `file` command fails, mark as unknown type
-        detectedType = "data";
+        embedding = poolChunkEmbeddings(
+          vectors as number[][],
+          file.chunks,
+          this.chunking.mode,
+        );
+        cachedChunks = file.chunks.map((chunk, i) => ({
+          chunkIndex: i,
+          startToken: chunk.startToken,
+          endToken: chunk.endToken,
+          tokenCount: chunk.tokenCount,
+          embedding: vectors[i]!,
+        }));
       }
 
-      // Get strategies in priority order, but implement proper fallback
-      const strategies = await getStrategiesForFile(
-        filePath,
-        ext,
-        detectedType,
-      );
-
-      // Debug logging
-      if (this.verboseToolLogging) {
-        console.log(
-          `🔍 Strategies for ${path.basename(filePath)}:`,
-          strategies.map((s) => s.name),
+      // Cache the result if cache is available
+      if (this.cache) {
+        await this.cache.setCachedEmbedding(
+          file.filePath,
+          embedding,
+          file.strategy,
+          { chunks: cachedChunks, redaction: this.getContentRedaction(file) },
         );
       }
 
-      // Try strategies in order until one succeeds
-      let content: string | null = null;
-      let successfulStrategy: string = "unknown";
+      complete(file.index, {
+        filePath: file.filePath,
+        embedding,
+        strategy: file.strategy,
+        fromCache: false,
+      });
+    };
 
-      for (const strategy of strategies) {
-        try {
-          if (this.verboseToolLogging) {
-            console.log(`🔄 Trying strategy: ${strategy.name}`);
-          }
-          content = await executeStrategy(strategy, filePath);
-          if (content) {
-            successfulStrategy = strategy.name;
-            if (this.verboseToolLogging) {
-              console.log(`✅ Strategy ${strategy.name} succeeded`);
+    const batches = this.createBatches(inputs);
+    const batchLimit = pLimit(EMBEDDING_BATCH_CONCURRENCY);
+    const concurrency = new AdaptiveConcurrency(batchLimit);
+
+    const embedBatch = async (batch: EmbeddingInput[]): Promise<void> => {
+      let vectors: number[][];
+      try {
+        vectors = await withRetry(
+          () => this.provider.embed(batch.map((input) => input.text)),
+          this.retryOptions,
+          ({ attempt, delayMs, errorClass }) => {
+            if (errorClass === "rate-limit") {
+              concurrency.throttle();
             }
-            break;
-          } else {
             if (this.verboseToolLogging) {
-              console.log(`❌ Strategy ${strategy.name} returned no content`);
+              console.log(
+                `🔁 Retrying batch of ${batch.length} inputs (${errorClass}, attempt ${attempt}) in ${Math.round(
+                  delayMs,
+                )}ms, concurrency ${concurrency.concurrency}`,
+              );
             }
-          }
-        } catch (error) {
-          // Strategy failed, continue to next one
-          if (this.verboseToolLogging) {
-            console.log(
-              `⚠️  Tool ${strategy.name} failed for ${path.basename(
-                filePath,
-              )}: ${error}`,
-            );
-          }
+          },
+        );
+        concurrency.recordSuccess();
+      } catch (error) {
+        // A client error may come from a single bad input; split the batch
+        // so the remaining files still get embedded
+        if (classifyError(error) === "client" && batch.length > 1) {
+          const middle = Math.ceil(batch.length / 2);
+          await embedBatch(batch.slice(0, middle));
+          await embedBatch(batch.slice(middle));
+          return;
         }
+
+        batch.forEach((input) => fail(input.file, error));
+        return;
       }
 
-      // Note: Fallback tools are now handled in the strategy selection logic
-      // Only specialized tools appropriate for the detected file type are used
+      for (let i = 0; i < batch.length; i++) {
+        const { file, chunkIndex } = batch[i];
+        const embedding = vectors[i];
+        if (failed.has(file.index)) {
+          continue;
+        }
+        if (!embedding) {
+          fail(file, "No embedding returned");
+          continue;
+        }
 
-      // If still no content, throw an error
-      if (!content) {
-        throw new Error(
-          `Failed to extract content from ${path.basename(
-            filePath,
-          )} using any available tools`,
-        );
+        if (file.chunks) {
+          chunkVectors.get(file.index)![chunkIndex] = embedding;
+        }
+        await finish(file, embedding);
       }
+    };
 
-      // Final safety check: ensure content fits within token limits
-      const tokenCount = this.countTokens(content);
-      if (tokenCount > EMBEDDING_MODEL_MAX_TOKENS) {
-        console.warn(
-          `⚠️  Content for ${path.basename(
-            filePath,
-          )} still exceeds token limit: ${tokenCount} tokens. This may cause embedding to fail.`,
-        );
-      }
+    await Promise.all(
+      batches.map((batch) => batchLimit(() => embedBatch(batch))),
+    );
 
-      const response = await this.openai.embeddings.create({
-        model: "text-embedding-3-small",
-        input: content,
-        dimensions: 512,
-      });
+    return results;
+  }
 
-      const embedding = response.data[0].embedding;
+  /**
+   * Pack inputs into request batches that respect the provider's
+   * per-request item and token limits. Inputs are kept in file order; an
+   * input larger than the token limit on its own is sent as a single-item
+   * batch.
+   */
+  private createBatches(inputs: EmbeddingInput[]): EmbeddingInput[][] {
+    const maxItems = this.provider.maxBatchSize;
+    const maxTokens = this.provider.maxBatchTokens;
+    const sorted = [...inputs].sort(
+      (a, b) => a.file.index - b.file.index || a.chunkIndex - b.chunkIndex,
+    );
 
-      // Cache the result if cache is available
-      if (this.cache) {
-        await this.cache.setCachedEmbedding(
-          filePath,
-          embedding,
-          successfulStrategy,
-        );
+    const batches: EmbeddingInput[][] = [];
+    let current: EmbeddingInput[] = [];
+    let currentTokens = 0;
+
+    for (const input of sorted) {
+      if (
+        current.length > 0 &&
+        (current.length >= maxItems ||
+          currentTokens + input.tokenCount > maxTokens)
+      ) {
+        batches.push(current);
+        current = [];
+        currentTokens = 0;
       }
+      current.push(input);
+      currentTokens += input.tokenCount;
+    }
 
-      return {
-        embedding,
-        strategy: successfulStrategy,
-        fromCache: false,
-      };
-    } catch (error) {
-      console.error(`Error getting embedding for ${filePath}:`, error);
-      throw error;
+    if (current.length > 0) {
+      batches.push(current);
     }
+
+    return batches;
   }
 
   /**
-   * Get detailed validation failure reason for a specific tool and output
+   * Generate an embedding for a single file, using the cache when possible
    */
-  getValidationFailureReason(toolName: string, output: string): string {
-    if (!global.availableTools) {
-      return "No tools available";
+  async getFileEmbedding(
+    filePath: string,
+  ): Promise<{ embedding: number[]; strategy: string; fromCache: boolean }> {
+    const [result] = await this.getFileEmbeddings([filePath]);
+    if (result.error) {
+      console.error(`Error getting embedding for ${filePath}:`, result.error);
+      throw new Error(result.error);
+    }
+
+    return {
+      embedding: result.embedding,
+      strategy: result.strategy,
+      fromCache: result.fromCache ?? false,
+    };
+  }
+
+  /**
+   * Embed a free-text query with the same provider, model and dimensions
+   * as files, so it can be compared with cached file embeddings
+   */
+  async embedQuery(query: string): Promise<number[]> {
+    const [vector] = await withRetry(
+      () => this.provider.embed([query]),
+      this.retryOptions,
+    );
+    return vector;
+  }
+
+  /**
+   * Extract a file's text exactly as it would be embedded (redaction
+   * included) without calling the provider
+   */
+  async extractText(filePath: string): Promise<string> {
+    return (await this.extractFileContent(filePath)).content;
+  }
+
+  /**
+   * Extract the text to embed for a file, trying strategies in priority order
+   */
+  private async extractFileContent(
+    filePath: string,
+  ): Promise<ExtractedContent> {
+    // Ensure tools are detected before proceeding
+    await detectAvailableTools();
+
+    // Get file extension and detected type
+    const ext = path.extname(filePath).toLowerCase();
+
+    // Detect file type using the 'file' command
+    let detectedType = "";
+    try {
+      const { stdout } = await runCommand("file", [toCommandPath(filePath)]);
+      detectedType = stdout.trim();
+
+      // Check if 'file' command couldn't determine the type
+      if (
+        detectedType.endsWith(": data") ||
+        detectedType.includes(": data")
+      ) {
+        detectedType = "data"; // Mark as unknown type
+      }
+    } catch (error) {
+      // If `file` command fails, mark as unknown type
+      detectedType = "data";
     }
 
-    const tool = global.availableTools.get(toolName);
-    if (!tool || !tool.validation) {
-      return "No validation function defined for this tool";
+    // Get strategies in priority order, but implement proper fallback
+    const strategies = await getStrategiesForFile(
+      filePath,
+      ext,
+      detectedType,
+    );
+
+    // Debug logging
+    if (this.verboseToolLogging) {
+      console.log(
+        `🔍 Strategies for ${path.basename(filePath)}:`,
+        strategies.map((s) => s.name),
+      );
     }
 
-    const cleanOutput = output
-      .replace(new RegExp(`${tool.description}:\\s*`, "i"), "")
-      .trim();
+    // In chunking mode keep enough text to fill every window
+    const { mode, chunkTokens, overlapTokens, maxChunks } = this.chunking;
+    const maxTokens =
+      mode === "off"
+        ? EMBEDDING_MODEL_TARGET_TOKENS
+        : chunkTokens + (maxChunks - 1) * (chunkTokens - overlapTokens);
 
-    switch (toolName) {
-      case "pdftotext":
-      case "antiword":
-      case "catdoc":
-        if (cleanOutput.length <= 100) {
-          return `Output too short: ${cleanOutput.length} characters (need >100)`;
-        }
-        if (!/[a-zA-Z]/.test(cleanOutput)) {
-          return "Output contains no letters";
-        }
-        return "Unknown validation failure";
+    // Try strategies in order until one succeeds
+    let content: string | null = null;
+    let successfulStrategy: string = "unknown";
 
-      case "xlsx2csv":
-        if (cleanOutput.length <= 50) {
-          return `Output too short: ${cleanOutput.length} characters (need >50)`;
+    for (const strategy of strategies) {
+      try {
+        if (this.verboseToolLogging) {
+          console.log(`🔄 Trying strategy: ${strategy.name}`);
+        }
+        content = await executeStrategy(strategy, filePath, maxTokens);
+        if (content) {
+          successfulStrategy = strategy.name;
+          if (this.verboseToolLogging) {
+            console.log(`✅ Strategy ${strategy.name} succeeded`);
+          }
+          break;
+        } else {
+          if (this.verboseToolLogging) {
+            console.log(`❌ Strategy ${strategy.name} returned no content`);
+          }
         }
-        if (!cleanOutput.includes(",")) {
-          return "Output doesn't contain CSV format (no commas)";
+      } catch (error) {
+        // Strategy failed, continue to next one
+        if (this.verboseToolLogging) {
+          console.log(
+            `⚠️  Tool ${strategy.name} failed for ${path.basename(
+              filePath,
+            )}: ${error}`,
+          );
         }
-        return "Unknown validation failure";
+      }
+    }
 
-      case "strings":
-        if (cleanOutput.length <= 50) {
-          return `Output too short: ${cleanOutput.length} characters (need >50)`;
-        }
-        const words = cleanOutput
-          .split(/\s+/)
-          .filter((word) => word.length > 2);
-        if (words.length <= 5) {
-          return `Too few meaningful words: ${words.length} (need >5)`;
+    // Note: Fallback tools are now handled in the strategy selection logic
+    // Only specialized tools appropriate for the detected file type are used
+
+    // If still no content, throw an error
+    if (!content) {
+      throw new Error(
+        `Failed to extract content from ${path.basename(
+          filePath,
+        )} using any available tools`,
+      );
+    }
+
+    // Strip secrets and personal data before anything leaves the machine
+    let redactions: RedactionCounts | undefined;
+    if (this.redactionMode !== "off") {
+      const redacted = redactSecrets(content);
+      if (redacted.total > 0) {
+        redactions = redacted.counts;
+        if (this.redactionMode === "metadata") {
+          content = (await executeStrategy(BASIC_METADATA_STRATEGY, filePath))!;
+          successfulStrategy = BASIC_METADATA_STRATEGY.name;
+        } else {
+          content = redacted.text;
         }
-        if (!/[a-zA-Z]/.test(cleanOutput)) {
-          return "Output contains no letters";
+        if (this.verboseToolLogging) {
+          console.log(
+            `🔒 Redacted ${redacted.total} matches in ${path.basename(filePath)}`,
+          );
         }
-        return "Unknown validation failure";
+      }
+    }
+
+    if (mode !== "off") {
+      const chunks = splitIntoTokenWindows(
+        content,
+        chunkTokens,
+        overlapTokens,
+        maxChunks,
+      );
+      if (chunks.length > 1) {
+        return {
+          content,
+          strategy: successfulStrategy,
+          tokenCount: chunks.reduce((sum, chunk) => sum + chunk.tokenCount, 0),
+          chunks,
+          redactions,
+        };
+      }
+    }
+
+    // Final safety check: ensure content fits within token limits
+    const tokenCount = this.countTokens(content);
+    if (tokenCount > EMBEDDING_MODEL_MAX_TOKENS) {
+      console.warn(
+        `⚠️  Content for ${path.basename(
+          filePath,
+        )} still exceeds token limit: ${tokenCount} tokens. This may cause embedding to fail.`,
+      );
+    }
 
-      default:
-        return "Unknown tool validation failure";
+    return { content, strategy: successfulStrategy, tokenCount, redactions };
+  }
+
+  /**
+   * Get detailed validation failure reason for a specific tool and output
+   */
+  getValidationFailureReason(toolName: string, output: string): string {
+    const tool = global.availableTools?.get(toolName);
+    if (!tool) {
+      return "Tool not available";
     }
+    return (
+      getValidationFailureReason(tool, output) ?? "Output passes validation"
+    );
   }
 }
@@ -0,0 +1,173 @@
+import chalk from "chalk";
+import { PreparedFile } from "./embeddings.js";
+import { EmbeddingProvider } from "./providers.js";
+
+/**
+ * Published OpenAI embedding prices in USD per million input tokens
+ */
+export const EMBEDDING_PRICES_PER_MILLION_TOKENS: Record<string, number> = {
+  "text-embedding-3-small": 0.02,
+  "text-embedding-3-large": 0.13,
+  "text-embedding-ada-002": 0.1,
+};
+
+export interface EmbeddingEstimate {
+  totalFiles: number;
+  cachedFiles: number;
+  failedFiles: number;
+  filesToEmbed: number;
+  totalTokens: number;
+  byStrategy: Record<string, { files: number; tokens: number }>;
+  /** Estimated cost for the configured provider, null if unknown */
+  providerCostUsd: number | null;
+  /** Estimated cost of the same tokens for each priced model */
+  costByModel: Record<string, number>;
+}
+
+/**
+ * Estimated cost of embedding `tokens` with the given provider
+ * Local and self-hosted providers cost nothing; unknown hosted models return null
+ */
+export function estimateProviderCost(
+  provider: EmbeddingProvider,
+  tokens: number,
+): number | null {
+  if (provider.name !== "openai") {
+    return 0;
+  }
+  const price = EMBEDDING_PRICES_PER_MILLION_TOKENS[provider.model];
+  return price === undefined ? null : (tokens / 1_000_000) * price;
+}
+
+/**
+ * Summarize the files that still need embeddings
+ */
+export function buildEmbeddingEstimate(
+  provider: EmbeddingProvider,
+  pending: PreparedFile[],
+  totals: { totalFiles: number; cachedFiles: number; failedFiles: number },
+): EmbeddingEstimate {
+  const byStrategy: EmbeddingEstimate["byStrategy"] = {};
+  let totalTokens = 0;
+
+  for (const file of pending) {
+    const entry = (byStrategy[file.strategy] ??= { files: 0, tokens: 0 });
+    entry.files++;
+    entry.tokens += file.tokenCount;
+    totalTokens += file.tokenCount;
+  }
+
+  const costByModel: Record<string, number> = {};
+  for (const [model, price] of Object.entries(
+    EMBEDDING_PRICES_PER_MILLION_TOKENS,
+  )) {
+    costByModel[model] = (totalTokens / 1_000_000) * price;
+  }
+
+  return {
+    ...totals,
+    filesToEmbed: pending.length,
+    totalTokens,
+    byStrategy,
+    providerCostUsd: estimateProviderCost(provider, totalTokens),
+    costByModel,
+  };
+}
+
+/**
+ * Combine estimates from several directories
+ */
+export function mergeEmbeddingEstimates(
+  provider: EmbeddingProvider,
+  estimates: EmbeddingEstimate[],
+): EmbeddingEstimate {
+  const merged: EmbeddingEstimate = {
+    totalFiles: 0,
+    cachedFiles: 0,
+    failedFiles: 0,
+    filesToEmbed: 0,
+    totalTokens: 0,
+    byStrategy: {},
+    providerCostUsd: 0,
+    costByModel: {},
+  };
+
+  for (const estimate of estimates) {
+    merged.totalFiles += estimate.totalFiles;
+    merged.cachedFiles += estimate.cachedFiles;
+    merged.failedFiles += estimate.failedFiles;
+    merged.filesToEmbed += estimate.filesToEmbed;
+    merged.totalTokens += estimate.totalTokens;
+    for (const [strategy, { files, tokens }] of Object.entries(
+      estimate.byStrategy,
+    )) {
+      const entry = (merged.byStrategy[strategy] ??= { files: 0, tokens: 0 });
+      entry.files += files;
+      entry.tokens += tokens;
+    }
+    for (const [model, cost] of Object.entries(estimate.costByModel)) {
+      merged.costByModel[model] = (merged.costByModel[model] ?? 0) + cost;
+    }
+  }
+
+  merged.providerCostUsd = estimateProviderCost(provider, merged.totalTokens);
+  return merged;
+}
+
+/**
+ * Format a USD amount, keeping precision for sub-cent estimates
+ */
+export function formatCost(costUsd: number | null): string {
+  if (costUsd === null) return "unknown";
+  if (costUsd === 0) return "$0.00";
+  if (costUsd < 0.01) return `$${costUsd.toFixed(4)}`;
+  return `$${costUsd.toFixed(2)}`;
+}
+
+/**
+ * Print an embedding estimate
+ */
+export function displayEmbeddingEstimate(
+  provider: EmbeddingProvider,
+  estimate: EmbeddingEstimate,
+  log: typeof console.log = console.log,
+): void {
+  log(chalk.blue.bold("\n💰 Embedding Estimate"));
+  log(chalk.gray(`Files scanned: ${estimate.totalFiles}`));
+  log(chalk.gray(`Already cached: ${estimate.cachedFiles}`));
+  if (estimate.failedFiles > 0) {
+    log(chalk.yellow(`Extraction failed: ${estimate.failedFiles}`));
+  }
+  log(chalk.white(`Files needing new embeddings: ${estimate.filesToEmbed}`));
+  log(chalk.white(`Total tokens: ${estimate.totalTokens.toLocaleString()}`));
+
+  const strategies = Object.entries(estimate.byStrategy).sort(
+    (a, b) => b[1].tokens - a[1].tokens,
+  );
+  if (strategies.length > 0) {
+    log(chalk.blue("\nBy extraction strategy:"));
+    const width = Math.max(...strategies.map(([name]) => name.length), 10);
+    for (const [strategy, { files, tokens }] of strategies) {
+      log(
+        chalk.gray(
+          `  ${strategy.padEnd(width)} ${files
+            .toString()
+            .padStart(6)} files ${tokens.toLocaleString().padStart(12)} tokens`,
+        ),
+      );
+    }
+  }
+
+  log(chalk.blue("\nEstimated cost:"));
+  log(
+    chalk.white(
+      `  ${provider.name}:${provider.model} (configured): ${formatCost(
+        estimate.providerCostUsd,
+      )}`,
+    ),
+  );
+  for (const [model, cost] of Object.entries(estimate.costByModel)) {
+    if (provider.name === "openai" && model === provider.model) continue;
+    log(chalk.gray(`  openai:${model}: ${formatCost(cost)}`));
+  }
+}
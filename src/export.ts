@@ -0,0 +1,143 @@
+import { promises as fs } from "fs";
+import { calculateCentroid, Cluster, cosineSimilarity } from "./clustering.js";
+
+export type ExportFormat = "json" | "csv" | "ndjson";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["json", "csv", "ndjson"];
+
+export interface ExportOptions {
+  withProbability?: boolean; // Include HDBSCAN membership probability
+}
+
+/**
+ * One clustered file as written to an export
+ */
+export interface ExportRow {
+  clusterId: number; // -1 for noise
+  // A file in a (near-)duplicate cluster also has a row in its semantic one
+  clusterKind: NonNullable<Cluster["kind"]>;
+  clusterLabel: string | null;
+  clusterKeywords: string[];
+  filePath: string;
+  size: number;
+  lastModified: string; // ISO timestamp
+  strategy: string | null; // Extraction strategy the embedding came from
+  distanceToCentroid: number | null; // Cosine distance, null without embedding
+  probability?: number | null;
+}
+
+/**
+ * Flatten clusters into one row per file, in cluster order
+ */
+export function buildExportRows(
+  clusters: Cluster[],
+  options: ExportOptions = {},
+): ExportRow[] {
+  const rows: ExportRow[] = [];
+
+  for (const cluster of clusters) {
+    // Restored sessions don't carry centroids; rebuild from the embeddings
+    const embedded = cluster.files.filter((f) => f.embedding.length > 0);
+    const centroid =
+      cluster.centroid ?? calculateCentroid(embedded.map((f) => f.embedding));
+
+    for (const file of cluster.files) {
+      const row: ExportRow = {
+        clusterId: cluster.id,
+        clusterKind: cluster.kind ?? "semantic",
+        clusterLabel: cluster.label ?? null,
+        clusterKeywords: cluster.keywords ?? [],
+        filePath: file.filePath,
+        size: file.size,
+        lastModified: file.lastModified.toISOString(),
+        strategy: file.strategy ?? null,
+        distanceToCentroid:
+          file.embedding.length > 0 && centroid.length > 0
+            ? 1 - cosineSimilarity(file.embedding, centroid)
+            : null,
+      };
+      if (options.withProbability) {
+        row.probability =
+          file.probability !== undefined && isFinite(file.probability)
+            ? file.probability
+            : null;
+      }
+      rows.push(row);
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or newline
+ */
+function escapeCsvField(
+  value: string | number | string[] | null | undefined,
+): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = Array.isArray(value) ? value.join("; ") : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatCsv(rows: ExportRow[], options: ExportOptions): string {
+  const columns: Array<keyof ExportRow> = [
+    "clusterId",
+    "clusterKind",
+    "clusterLabel",
+    "clusterKeywords",
+    "filePath",
+    "size",
+    "lastModified",
+    "strategy",
+    "distanceToCentroid",
+  ];
+  if (options.withProbability) {
+    columns.push("probability");
+  }
+
+  const lines = [columns.join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCsvField(row[column])).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Serialize clustering results in the given format
+ */
+export function formatClusterExport(
+  clusters: Cluster[],
+  format: ExportFormat,
+  options: ExportOptions = {},
+): string {
+  const rows = buildExportRows(clusters, options);
+
+  switch (format) {
+    case "json":
+      return JSON.stringify(rows, null, 2) + "\n";
+    case "ndjson":
+      return rows.map((row) => JSON.stringify(row) + "\n").join("");
+    case "csv":
+      return formatCsv(rows, options);
+  }
+}
+
+/**
+ * Write clustering results to a file, or to stdout when no file is given
+ */
+export async function writeClusterExport(
+  clusters: Cluster[],
+  format: ExportFormat,
+  outputFile: string | undefined,
+  options: ExportOptions = {},
+): Promise<void> {
+  const content = formatClusterExport(clusters, format, options);
+  if (outputFile) {
+    await fs.writeFile(outputFile, content, "utf-8");
+  } else {
+    process.stdout.write(content);
+  }
+}
@@ -1,11 +1,9 @@
 import chalk from "chalk";
-import { exec } from "child_process";
+import { createHash } from "crypto";
 import { promises as fs, Stats } from "fs";
 import path from "path";
 import { encoding_for_model } from "tiktoken";
-import { promisify } from "util";
-
-const execAsync = promisify(exec);
+import { commandExists, runCommand, toCommandPath } from "./process.js";
 
 // OpenAI embedding model token limits
 const EMBEDDING_MODEL_MAX_TOKENS = 8192;
@@ -13,6 +11,10 @@ const EMBEDDING_MODEL_SAFETY_MARGIN = 100; // Leave some buffer
 const EMBEDDING_MODEL_TARGET_TOKENS =
   EMBEDDING_MODEL_MAX_TOKENS - EMBEDDING_MODEL_SAFETY_MARGIN;
 
+// Bump whenever extraction output changes in a way that affects embeddings,
+// so cached vectors from the old pipeline are treated as misses
+export const EXTRACTION_PIPELINE_VERSION = "1";
+
 /**
  * Count tokens in text using tiktoken
  */
@@ -29,6 +31,79 @@ function countTokens(text: string): number {
   }
 }
 
+/**
+ * A window of text produced by `splitIntoTokenWindows`
+ */
+export interface TextChunk {
+  text: string;
+  startToken: number;
+  endToken: number; // Exclusive
+  tokenCount: number;
+}
+
+/**
+ * Split text into overlapping windows of at most `windowTokens` tokens
+ * Consecutive windows share `overlapTokens` tokens; at most `maxWindows`
+ * windows are produced, so very long inputs are still bounded
+ */
+export function splitIntoTokenWindows(
+  text: string,
+  windowTokens: number,
+  overlapTokens: number,
+  maxWindows: number = Infinity,
+): TextChunk[] {
+  let encoder;
+  try {
+    encoder = encoding_for_model("text-embedding-3-small");
+  } catch (error) {
+    // Fallback: approximate tokens with 4-character slices
+    const chunks: TextChunk[] = [];
+    const windowChars = windowTokens * 4;
+    const stepChars = Math.max(1, (windowTokens - overlapTokens) * 4);
+    for (
+      let start = 0;
+      start < text.length && chunks.length < maxWindows;
+      start += stepChars
+    ) {
+      const chunkText = text.substring(start, start + windowChars);
+      chunks.push({
+        text: chunkText,
+        startToken: Math.floor(start / 4),
+        endToken: Math.ceil((start + chunkText.length) / 4),
+        tokenCount: Math.ceil(chunkText.length / 4),
+      });
+      if (start + windowChars >= text.length) break;
+    }
+    return chunks;
+  }
+
+  try {
+    const tokens = encoder.encode(text);
+    const decoder = new TextDecoder();
+    const step = Math.max(1, windowTokens - overlapTokens);
+    const chunks: TextChunk[] = [];
+
+    for (
+      let start = 0;
+      start < tokens.length && chunks.length < maxWindows;
+      start += step
+    ) {
+      const end = Math.min(start + windowTokens, tokens.length);
+      chunks.push({
+        text: decoder.decode(encoder.decode(tokens.slice(start, end))),
+        startToken: start,
+        endToken: end,
+        tokenCount: end - start,
+      });
+      if (end >= tokens.length) break;
+    }
+
+    return chunks;
+  } finally {
+    encoder.free();
+  }
+}
+
 /**
  * Truncate text to fit within token limit while preserving meaningful content
  */
@@ -98,19 +173,18 @@ function truncateToTokenLimit(
  * - If omitted, the strategy is treated as priority 1 during sorting.
  *
  * Validation semantics:
- * - If provided, the function receives the truncated output string, which
- *   includes the `description` prefix followed by a colon (e.g.,
- *   "Description:\n<tool output>"). Return true to accept, false to
- *   discard and fall back to the next strategy.
+ * - If provided, `validators` are checked against the tool output (after
+ *   truncation, without the `description` prefix). Output that fails them
+ *   is discarded and the next strategy is tried.
  *
  * Args semantics:
- * - Use the literal token "FILEPATH" to indicate where the absolute file
- *   path should be injected prior to execution.
+ * - The literal token "FILEPATH" is replaced with the absolute file path
+ *   prior to execution, also inside a longer argument ("--in=FILEPATH").
  */
-interface ToolInfo {
+export interface ToolInfo {
   /** Unique tool identifier used as the strategy name. */
   name: string;
-  /** The CLI executable to run (looked up via `command -v`). */
+  /** The CLI executable to run: a name looked up on the PATH, or a path. */
   command: string;
   /**
    * Command-line arguments. Use the literal token "FILEPATH" to have the
@@ -119,22 +193,48 @@ interface ToolInfo {
   args: string[];
   /**
    * Human-readable label prepended to the tool's output. This is included
-   * in the content passed to `validation` and in the final displayed text.
+   * in the final displayed text.
    */
   description: string;
   /**
-   * Optional post-run check for tool output. Receives the truncated output
-   * string (including the `description` prefix). Return true to accept.
+   * Optional checks the tool output must pass to be accepted.
    */
-  validation?: (output: string) => boolean;
+  validators?: OutputValidators;
   /**
    * Strategy priority: higher values run earlier. If omitted, defaults to 1.
    * Use 0 to explicitly de-prioritize as a last-resort.
    */
   priority?: number;
+  /**
+   * Milliseconds before the tool is killed. If omitted, 10s (30s for files
+   * over 100MB).
+   */
+  timeout?: number;
+  /**
+   * Files the strategy applies to. Only used for strategies declared in a
+   * config file; built-in tools are picked by `getStrategiesForFile`.
+   */
+  match?: StrategyMatchers;
 }
 
-interface FileInfo {
+/**
+ * Checks on a tool's output; all that are set must pass
+ */
+export interface OutputValidators {
+  minLength?: number; // Minimum number of characters
+  mustContain?: RegExp[]; // Patterns that must all match somewhere
+}
+
+/**
+ * Which files a configured strategy applies to; any matcher may match
+ */
+export interface StrategyMatchers {
+  extensions?: string[]; // Lower-case file name endings, e.g. ".epub"
+  mimeTypes?: string[]; // From `file --mime-type`; "image/*" matches a family
+  fileTypes?: string[]; // Case-insensitive substrings of `file` output
+}
+
+export interface FileInfo {
   filename: string;
   size: number;
   lastModified: Date;
@@ -287,7 +387,7 @@ export async function displayFileInfo(filePath: string): Promise<void> {
 /**
  * Extract content from non-text files using available tools
  */
-async function extractNonTextContent(
+export async function extractNonTextContent(
   filePath: string,
   ext: string,
   stats: Stats,
@@ -297,7 +397,7 @@ async function extractNonTextContent(
   // First, try to detect file type using the `file` command
   let detectedType = "";
   try {
-    const { stdout } = await execAsync(`file "${filePath}"`);
+    const { stdout } = await runCommand("file", [toCommandPath(filePath)]);
     detectedType = stdout.trim();
 
     // Check if 'file' command couldn't determine the type
@@ -363,12 +463,121 @@ async function extractNonTextContent(
 }
 
 /**
- * Get strategies for processing a specific file type
+ * Get strategies for processing a specific file type: the built-in tools
+ * suited to it plus any configured strategies whose matchers match it
  */
 export async function getStrategiesForFile(
   filePath: string,
   ext: string,
   detectedType: string,
+): Promise<ToolInfo[]> {
+  const builtIn = await getBuiltInStrategies(filePath, ext, detectedType);
+  const configured = await getConfiguredStrategies(
+    filePath,
+    parseDetectedType(ext, detectedType),
+  );
+  if (configured.length === 0) {
+    return builtIn;
+  }
+
+  // A configured strategy is enough to skip the metadata-only fallback
+  const names = new Set(configured.map((s) => s.name));
+  return [
+    ...configured,
+    ...builtIn.filter(
+      (s) => s !== BASIC_METADATA_STRATEGY && !names.has(s.name),
+    ),
+  ].sort((a, b) => (b.priority || 1) - (a.priority || 1));
+}
+
+/**
+ * Parse the type description from the 'file' command output
+ * The output format is typically: "filename: type description"
+ */
+function parseDetectedType(ext: string, detectedType: string): string {
+  if (!detectedType || detectedType === ext) {
+    return "";
+  }
+  // Extract the type description after the colon
+  const colonIndex = detectedType.indexOf(":");
+  return colonIndex !== -1
+    ? detectedType
+        .substring(colonIndex + 1)
+        .trim()
+        .toLowerCase()
+    : detectedType.toLowerCase();
+}
+
+/**
+ * Available configured strategies whose matchers match a file
+ */
+async function getConfiguredStrategies(
+  filePath: string,
+  parsedType: string,
+): Promise<ToolInfo[]> {
+  if (!global.availableTools) {
+    await detectAvailableTools();
+  }
+  const candidates = [...global.availableTools!.values()].filter(
+    (tool) => tool.match,
+  );
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const fileName = path.basename(filePath).toLowerCase();
+  let mimeType: string | undefined;
+  const matched: ToolInfo[] = [];
+  for (const tool of candidates) {
+    const { extensions = [], mimeTypes = [], fileTypes = [] } = tool.match!;
+    if (
+      extensions.some((extension) => fileName.endsWith(extension)) ||
+      fileTypes.some((type) => parsedType.includes(type))
+    ) {
+      matched.push(tool);
+      continue;
+    }
+    if (mimeTypes.length === 0) {
+      continue;
+    }
+    // Only asked of `file` when a strategy needs it
+    mimeType ??= await detectMimeType(filePath);
+    if (
+      mimeTypes.some((type) =>
+        type.endsWith("/*")
+          ? mimeType!.startsWith(type.slice(0, -1))
+          : mimeType === type,
+      )
+    ) {
+      matched.push(tool);
+    }
+  }
+  return matched;
+}
+
+/**
+ * MIME type of a file according to `file`, or "" when it can't be told
+ */
+async function detectMimeType(filePath: string): Promise<string> {
+  try {
+    const { stdout } = await runCommand("file", [
+      "-b",
+      "--mime-type",
+      toCommandPath(filePath),
+    ]);
+    return stdout.trim().toLowerCase();
+  } catch (error) {
+    return "";
+  }
+}
+
+/**
+ * Built-in tools suited to a file, picked by extension and `file` type
+ */
+async function getBuiltInStrategies(
+  filePath: string,
+  ext: string,
+  detectedType: string,
 ): Promise<ToolInfo[]> {
   const strategies: ToolInfo[] = [];
 
@@ -378,21 +587,7 @@ export async function getStrategiesForFile(
 
   const tools = global.availableTools!;
 
-  // Parse the detected type from the 'file' command output
-  // The output format is typically: "filename: type description"
-  let parsedType = "";
-  if (detectedType && detectedType !== ext) {
-    // Extract the type description after the colon
-    const colonIndex = detectedType.indexOf(":");
-    if (colonIndex !== -1) {
-      parsedType = detectedType
-        .substring(colonIndex + 1)
-        .trim()
-        .toLowerCase();
-    } else {
-      parsedType = detectedType.toLowerCase();
-    }
-  }
+  const parsedType = parseDetectedType(ext, detectedType);
 
   // If 'file' command couldn't determine type (returns "data"), be very conservative
   if (parsedType === "data" || parsedType === "") {
@@ -602,15 +797,7 @@ export async function getStrategiesForFile(
 
   // If we still have no strategies, create a basic metadata strategy
   if (strategies.length === 0) {
-    // This will be handled in the executeStrategy function as a special case
-    const basicStrategy: ToolInfo = {
-      name: "basic-metadata",
-      command: "echo",
-      args: ["basic-file-info"],
-      description: "Basic file metadata and information",
-      priority: 0,
-    };
-    strategies.push(basicStrategy);
+    strategies.push(BASIC_METADATA_STRATEGY);
   }
 
   // Sort strategies by priority (higher numbers = higher priority)
@@ -619,12 +806,25 @@ export async function getStrategiesForFile(
   return strategies;
 }
 
+/**
+ * Describes a file by name, extension, size and modification time only
+ * This is handled in the executeStrategy function as a special case
+ */
+export const BASIC_METADATA_STRATEGY: ToolInfo = {
+  name: "basic-metadata",
+  command: "echo",
+  args: ["basic-file-info"],
+  description: "Basic file metadata and information",
+  priority: 0,
+};
+
 /**
  * Execute a strategy to extract content from a file
  */
 export async function executeStrategy(
   strategy: ToolInfo,
   filePath: string,
+  maxTokens: number = EMBEDDING_MODEL_TARGET_TOKENS,
 ): Promise<string | null> {
   try {
     // Handle basic metadata strategy specially
@@ -638,18 +838,18 @@ export async function executeStrategy(
       return `File: ${fileName}, Extension: ${ext}, Size: ${fileSize}, Last Modified: ${lastModified}`;
     }
 
+    // The path is passed as its own argument, never through a shell
     const args = strategy.args.map((arg) =>
-      arg === "FILEPATH" ? `"${filePath}"` : arg,
+      arg.replaceAll("FILEPATH", toCommandPath(filePath)),
     );
-    const command = `${strategy.command} ${args.join(" ")}`;
 
-    // Get file stats to adjust buffer size and timeout
+    // Get file stats to adjust output cap and timeout
     const stats = await fs.stat(filePath);
     const isLargeFile = stats.size > 100 * 1024 * 1024; // 100MB
 
-    const { stdout, stderr } = await execAsync(command, {
-      timeout: isLargeFile ? 30000 : 10000, // 30s for large files, 10s for normal
-      maxBuffer: isLargeFile ? 50 * 1024 * 1024 : 5 * 1024 * 1024, // 50MB for large files, 5MB for normal
+    const { stdout } = await runCommand(strategy.command, args, {
+      timeout: strategy.timeout ?? (isLargeFile ? 30000 : 10000), // 30s for large files, 10s for normal
+      maxBytes: isLargeFile ? 50 * 1024 * 1024 : 5 * 1024 * 1024, // 50MB for large files, 5MB for normal
     });
 
     if (stdout && stdout.trim()) {
@@ -657,12 +857,10 @@ export async function executeStrategy(
       const output = stdout.trim();
       const fullContent = `${strategy.description}:\n${output}`;
 
-      const truncationResult = truncateToTokenLimit(fullContent);
+      const truncationResult = truncateToTokenLimit(fullContent, maxTokens);
 
-      // Apply validation if the tool has a validation function
       if (
-        strategy.validation &&
-        !strategy.validation(truncationResult.truncatedText)
+        getValidationFailureReason(strategy, truncationResult.truncatedText)
       ) {
         return null; // Validation failed
       }
@@ -676,6 +874,66 @@ export async function executeStrategy(
   }
 }
 
+/**
+ * Check strategy output (as returned by executeStrategy) against the
+ * strategy's validators
+ * Returns why the output is rejected, or null when it is accepted
+ */
+export function getValidationFailureReason(
+  strategy: ToolInfo,
+  output: string,
+): string | null {
+  const prefix = `${strategy.description}:`;
+  const content = (
+    output.startsWith(prefix) ? output.slice(prefix.length) : output
+  ).trim();
+  const { minLength, mustContain = [] } = strategy.validators ?? {};
+
+  if (minLength !== undefined && content.length < minLength) {
+    return `Output too short: ${content.length} characters (need ${minLength})`;
+  }
+  const missing = mustContain.find((pattern) => !pattern.test(content));
+  if (missing) {
+    return `Output doesn't match ${missing}`;
+  }
+  return null;
+}
+
+// Strategies declared in a config file, see registerStrategies
+let configuredStrategies: ToolInfo[] = [];
+
+/**
+ * Add strategies declared in a config file to the tools detected by
+ * detectAvailableTools. A strategy named like a built-in tool replaces it
+ */
+export function registerStrategies(strategies: ToolInfo[]): void {
+  configuredStrategies = strategies;
+  global.availableTools = undefined; // Detect again, including these
+}
+
+/**
+ * Short hash of each available configured strategy's declaration, by name
+ * Cache entries record the hash of the strategy that extracted them, so
+ * changing a strategy only invalidates the files it extracted. Empty until
+ * detectAvailableTools has run
+ */
+export function getConfiguredStrategyVersions(): Map<string, string> {
+  const versions = new Map<string, string>();
+  for (const tool of configuredStrategies) {
+    if (global.availableTools?.get(tool.name) !== tool) {
+      continue; // Not installed, so it extracts nothing
+    }
+    const declaration = JSON.stringify(tool, (_, value) =>
+      value instanceof RegExp ? value.toString() : value,
+    );
+    versions.set(
+      tool.name,
+      createHash("sha256").update(declaration).digest("hex").slice(0, 12),
+    );
+  }
+  return versions;
+}
+
 /**
  * Detect available command line tools
  */
@@ -693,12 +951,7 @@ export async function detectAvailableTools(): Promise<void> {
       args: ["-c", "FILEPATH"],
       description: "Decompress gzipped files",
       priority: 8,
-      validation: (output: string) => {
-        const content = output
-          .replace(/Decompress gzipped files:\s*/i, "")
-          .trim();
-        return content.length > 10 && /[a-zA-Z]/.test(content);
-      },
+      validators: { minLength: 11, mustContain: [/[a-zA-Z]/] },
     },
     {
       name: "cat",
@@ -706,12 +959,7 @@ export async function detectAvailableTools(): Promise<void> {
       args: ["FILEPATH"],
       description: "Plain text file content",
       priority: 7,
-      validation: (output: string) => {
-        const content = output
-          .replace(/Plain text file content:\s*/i, "")
-          .trim();
-        return content.length > 10 && /[a-zA-Z]/.test(content);
-      },
+      validators: { minLength: 11, mustContain: [/[a-zA-Z]/] },
     },
     {
       name: "head",
@@ -719,12 +967,7 @@ export async function detectAvailableTools(): Promise<void> {
       args: ["-c", "10000", "FILEPATH"],
       description: "Preview file content (first 10KB)",
       priority: 6,
-      validation: (output: string) => {
-        const content = output
-          .replace(/Preview file content \(first 10KB\):\s*/i, "")
-          .trim();
-        return content.length > 50 && /[a-zA-Z]/.test(content);
-      },
+      validators: { minLength: 51, mustContain: [/[a-zA-Z]/] },
     },
     {
       name: "pdftotext",
@@ -732,12 +975,7 @@ export async function detectAvailableTools(): Promise<void> {
       args: ["FILEPATH", "-"],
       description: "PDF text content extraction",
       priority: 10,
-      validation: (output: string) => {
-        const textContent = output
-          .replace(/PDF text content extraction:\s*/i, "")
-          .trim();
-        return textContent.length > 100 && /[a-zA-Z]/.test(textContent);
-      },
+      validators: { minLength: 101, mustContain: [/[a-zA-Z]/] },
     },
     {
       name: "pdfinfo",
@@ -802,12 +1040,7 @@ export async function detectAvailableTools(): Promise<void> {
       args: ["FILEPATH"],
       description: "Microsoft Word document text extraction",
       priority: 5,
-      validation: (output: string) => {
-        const textContent = output
-          .replace(/Microsoft Word document text extraction:\s*/i, "")
-          .trim();
-        return textContent.length > 100 && /[a-zA-Z]/.test(textContent);
-      },
+      validators: { minLength: 101, mustContain: [/[a-zA-Z]/] },
     },
     {
       name: "catdoc",
@@ -815,15 +1048,7 @@ export async function detectAvailableTools(): Promise<void> {
       args: ["FILEPATH"],
       description: "Microsoft Word document text extraction (alternative)",
       priority: 4,
-      validation: (output: string) => {
-        const textContent = output
-          .replace(
-            /Microsoft Word document text extraction \(alternative\):\s*/i,
-            "",
-          )
-          .trim();
-        return textContent.length > 100 && /[a-zA-Z]/.test(textContent);
-      },
+      validators: { minLength: 101, mustContain: [/[a-zA-Z]/] },
     },
     {
       name: "xlsx2csv",
@@ -831,12 +1056,7 @@ export async function detectAvailableTools(): Promise<void> {
       args: ["FILEPATH"],
       description: "Excel spreadsheet conversion",
       priority: 5,
-      validation: (output: string) => {
-        const csvContent = output
-          .replace(/Excel spreadsheet conversion:\s*/i, "")
-          .trim();
-        return csvContent.length > 50 && csvContent.includes(",");
-      },
+      validators: { minLength: 51, mustContain: [/,/] },
     },
     {
       name: "file",
@@ -851,13 +1071,8 @@ export async function detectAvailableTools(): Promise<void> {
       args: ["-n", "4", "FILEPATH"], // Only strings with 4+ characters
       description: "Extract readable strings from binary files",
       priority: 0,
-      validation: (output: string) => {
-        const stringsContent = output
-          .replace(/Extract readable strings from binary files:\s*/i, "")
-          .trim();
-        // For binary files, be more lenient - just require some content and some letters
-        return stringsContent.length > 10 && /[a-zA-Z]/.test(stringsContent);
-      },
+      // For binary files, be more lenient - just require some content and some letters
+      validators: { minLength: 11, mustContain: [/[a-zA-Z]/] },
     },
     {
       name: "hexdump",
@@ -875,12 +1090,13 @@ export async function detectAvailableTools(): Promise<void> {
     },
   ];
 
-  for (const tool of tools) {
-    try {
-      await execAsync(`command -v ${tool.command}`);
+  const replaced = new Set(configuredStrategies.map((tool) => tool.name));
+  for (const tool of [
+    ...tools.filter((tool) => !replaced.has(tool.name)),
+    ...configuredStrategies,
+  ]) {
+    if (await commandExists(tool.command)) {
       global.availableTools.set(tool.name, tool);
-    } catch (error) {
-      // Tool not available
     }
   }
 }
@@ -890,8 +1106,11 @@ export async function detectAvailableTools(): Promise<void> {
  */
 export async function displayFileType(filePath: string): Promise<void> {
   try {
-    const { stdout } = await execAsync(`file "${filePath}"`);
-    const fileType = stdout.trim().split(":")[1]?.trim() || "Unknown";
+    const { stdout } = await runCommand("file", [
+      "-b",
+      toCommandPath(filePath),
+    ]);
+    const fileType = stdout.trim() || "Unknown";
     console.log(chalk.cyan(`Type: ${fileType}`));
   } catch (error) {
     console.log(chalk.yellow("Could not determine file type"));
@@ -904,7 +1123,7 @@ export async function displayFileType(filePath: string): Promise<void> {
 async function displayImageInfo(filePath: string): Promise<void> {
   try {
     // Try to get image info using `identify` command (ImageMagick)
-    const { stdout } = await execAsync(`identify "${filePath}" 2>/dev/null`);
+    const { stdout } = await runCommand("identify", [toCommandPath(filePath)]);
     if (stdout.trim()) {
       const parts = stdout.trim().split(" ");
       if (parts.length >= 3) {
@@ -916,9 +1135,13 @@ async function displayImageInfo(filePath: string): Promise<void> {
   } catch (error) {
     // Try with `sips` command (macOS)
     try {
-      const { stdout } = await execAsync(
-        `sips -g pixelWidth -g pixelHeight "${filePath}" 2>/dev/null`,
-      );
+      const { stdout } = await runCommand("sips", [
+        "-g",
+        "pixelWidth",
+        "-g",
+        "pixelHeight",
+        toCommandPath(filePath),
+      ]);
       const lines = stdout.trim().split("\n");
       const width = lines
         .find((l) => l.includes("pixelWidth"))
@@ -0,0 +1,187 @@
+import { promises as fs } from "fs";
+import inquirer from "inquirer";
+import os from "os";
+import path from "path";
+import { Cluster } from "./clustering.js";
+
+export interface FolderPickerOptions {
+  message: string;
+  baseDir: string; // Relative input is resolved against this directory
+  recent: string[]; // Recently used destinations, most recent first
+  suggestions: string[]; // Folders suggested from other clusters
+  exclude?: string; // Folder to leave out, e.g. the file's current folder
+}
+
+interface FolderChoice {
+  name: string;
+  value: string;
+  description?: string;
+}
+
+const MAX_COMPLETIONS = 20;
+
+/**
+ * Expand a leading ~ and resolve input against the base directory
+ */
+function resolveFolderInput(input: string, baseDir: string): string {
+  if (input === "~" || input.startsWith("~/")) {
+    return path.join(os.homedir(), input.slice(1));
+  }
+  return path.resolve(baseDir, input);
+}
+
+/**
+ * Show a folder with the home directory abbreviated to ~
+ */
+function displayFolder(folder: string): string {
+  const home = os.homedir();
+  if (folder === home) return "~";
+  if (folder.startsWith(home + path.sep)) {
+    return "~" + folder.slice(home.length);
+  }
+  return folder;
+}
+
+/**
+ * Subdirectories matching partially typed input, named the way the user
+ * typed them so Tab completion can continue from the result
+ */
+async function completeFolder(
+  input: string,
+  baseDir: string,
+): Promise<FolderChoice[]> {
+  const endsWithSeparator = input === "" || input.endsWith("/");
+  const typedDir = endsWithSeparator
+    ? input
+    : input.slice(0, input.lastIndexOf("/") + 1);
+  const prefix = endsWithSeparator
+    ? ""
+    : input.slice(typedDir.length).toLowerCase();
+  const parent = resolveFolderInput(typedDir || ".", baseDir);
+
+  let entries;
+  try {
+    entries = await fs.readdir(parent, { withFileTypes: true });
+  } catch (error) {
+    return []; // Parent doesn't exist (yet)
+  }
+
+  return entries
+    .filter(
+      (entry) =>
+        entry.isDirectory() &&
+        !entry.name.startsWith(".") &&
+        entry.name.toLowerCase().startsWith(prefix),
+    )
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .slice(0, MAX_COMPLETIONS)
+    .map((entry) => ({
+      name: `${typedDir}${entry.name}/`,
+      value: path.join(parent, entry.name),
+    }));
+}
+
+/**
+ * Ask for a destination folder with a searchable list of recent
+ * destinations, suggestions and filesystem completions (Tab completes the
+ * highlighted entry). Typing a path that doesn't exist offers to create it.
+ */
+export async function promptForFolder(
+  options: FolderPickerOptions,
+): Promise<string> {
+  const { baseDir, exclude } = options;
+
+  const source = async (term: string | undefined): Promise<FolderChoice[]> => {
+    const input = term?.trim() ?? "";
+    const needle = input.toLowerCase();
+    const choices: FolderChoice[] = [];
+    const seen = new Set<string>(exclude ? [exclude] : []);
+
+    const add = (choice: FolderChoice) => {
+      if (seen.has(choice.value)) return;
+      seen.add(choice.value);
+      choices.push(choice);
+    };
+
+    const matches = (folder: string) =>
+      displayFolder(folder).toLowerCase().includes(needle);
+
+    // The typed path itself. An existing folder comes first; a new one
+    // comes last so Tab completes to matching folders instead
+    let newFolder: FolderChoice | null = null;
+    if (input) {
+      const typed = resolveFolderInput(input, baseDir);
+      let exists = false;
+      try {
+        exists = (await fs.stat(typed)).isDirectory();
+      } catch (error) {
+        // Doesn't exist yet
+      }
+      if (exists) {
+        add({ name: input, value: typed });
+      } else {
+        newFolder = { name: input, value: typed, description: "new folder" };
+      }
+    }
+
+    options.recent
+      .filter(matches)
+      .forEach((folder) =>
+        add({
+          name: displayFolder(folder),
+          value: folder,
+          description: "recent",
+        }),
+      );
+    options.suggestions
+      .filter(matches)
+      .forEach((folder) =>
+        add({
+          name: displayFolder(folder),
+          value: folder,
+          description: "similar files",
+        }),
+      );
+    (await completeFolder(input, baseDir)).forEach(add);
+    if (newFolder) {
+      add(newFolder);
+    }
+
+    return choices;
+  };
+
+  const { folder } = await inquirer.prompt([
+    {
+      type: "search",
+      name: "folder",
+      message: `${options.message} (type a path, Tab to complete)`,
+      source,
+    },
+  ]);
+  return folder;
+}
+
+/**
+ * Folders that hold files from other clusters, most common first
+ * Files that are similar to each other often belong together, so these are
+ * likely destinations
+ */
+export function suggestFoldersFromClusters(
+  clusters: Cluster[],
+  currentClusterIndex: number,
+  limit: number = 5,
+): string[] {
+  const counts = new Map<string, number>();
+  clusters.forEach((cluster, index) => {
+    if (index === currentClusterIndex) return;
+    for (const file of cluster.files) {
+      const folder = path.dirname(file.filePath);
+      counts.set(folder, (counts.get(folder) ?? 0) + 1);
+    }
+  });
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([folder]) => folder);
+}
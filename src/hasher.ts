@@ -1,34 +1,60 @@
 import { createHash } from "crypto";
 import { createReadStream, promises as fs } from "fs";
+import xxhash, { XXHashAPI } from "xxhash-wasm";
 
 /**
- * Hash a file using MD5 for change detection
+ * Algorithm of the content hashes produced by hashFile and hashFilePartial,
+ * recorded with every cache entry so hashes of different algorithms are
+ * never compared
+ */
+export const HASH_ALGORITHM = "xxh64";
+
+// Bytes read from the start, middle and end of a file for a partial hash
+const PARTIAL_SAMPLE_SIZE = 64 * 1024;
+
+let xxhashApi: Promise<XXHashAPI> | null = null;
+
+/**
+ * The xxHash WebAssembly module, instantiated on first use
+ */
+function getXXHash(): Promise<XXHashAPI> {
+  if (!xxhashApi) {
+    xxhashApi = xxhash();
+  }
+  return xxhashApi;
+}
+
+function formatHash(hash: bigint): string {
+  return hash.toString(16).padStart(16, "0");
+}
+
+/**
+ * Hash a file's full content with xxh64 for change detection
  * For small files (< 1MB), reads entire file at once (faster)
  * For larger files, uses streaming to avoid memory issues
  */
 export async function hashFile(filePath: string): Promise<string> {
   try {
+    const { create64 } = await getXXHash();
     const stats = await fs.stat(filePath);
 
     // For small files (< 1MB), read the entire file at once (faster)
     if (stats.size < 1024 * 1024) {
       const fileBuffer = await fs.readFile(filePath);
-      const hash = createHash("md5");
-      hash.update(fileBuffer);
-      return hash.digest("hex");
+      return formatHash(create64().update(fileBuffer).digest());
     }
 
     // For larger files, use streaming to avoid memory issues
-    return new Promise((resolve, reject) => {
-      const hash = createHash("md5");
+    return await new Promise((resolve, reject) => {
+      const hash = create64();
       const stream = createReadStream(filePath);
 
       stream.on("data", (data) => {
-        hash.update(data);
+        hash.update(data as Buffer);
       });
 
       stream.on("end", () => {
-        resolve(hash.digest("hex"));
+        resolve(formatHash(hash.digest()));
       });
 
       stream.on("error", (error) => {
@@ -40,6 +66,40 @@ export async function hashFile(filePath: string): Promise<string> {
   }
 }
 
+/**
+ * Hash a sample of a file with xxh64: its size plus the first, middle and
+ * last 64 KB (the whole file when it is smaller than that)
+ * Much cheaper than hashFile on large media; a different partial hash means
+ * different content, an equal one only makes equal content likely
+ */
+export async function hashFilePartial(filePath: string): Promise<string> {
+  const { create64 } = await getXXHash();
+  const handle = await fs.open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    const samples: Array<[offset: number, length: number]> =
+      size <= PARTIAL_SAMPLE_SIZE * 3
+        ? [[0, size]]
+        : [
+            [0, PARTIAL_SAMPLE_SIZE],
+            [Math.floor((size - PARTIAL_SAMPLE_SIZE) / 2), PARTIAL_SAMPLE_SIZE],
+            [size - PARTIAL_SAMPLE_SIZE, PARTIAL_SAMPLE_SIZE],
+          ];
+
+    const hash = create64().update(`${size}:`);
+    for (const [offset, length] of samples) {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, offset);
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+    return formatHash(hash.digest());
+  } catch (error) {
+    throw new Error(`Failed to partially hash file ${filePath}: ${error}`);
+  } finally {
+    await handle.close();
+  }
+}
+
 /**
  * Fast hash using only file stats (modification time + size)
  * This is much faster than reading file content but less reliable
@@ -0,0 +1,204 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export const IGNORE_FILENAME = ".triageignore";
+
+/**
+ * A single compiled gitignore-style pattern
+ * `base` is the directory (relative to the scan root, "" for the root)
+ * that holds the ignore file the rule came from
+ */
+export interface IgnoreRule {
+  base: string;
+  pattern: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * Convert a glob to a regular expression source string
+ * Supports `*`, `?`, `**`, and `[...]` character classes
+ */
+function globToRegExpSource(glob: string): string {
+  let source = "";
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i];
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const atSegmentStart = i === 0 || glob[i - 1] === "/";
+        const atSegmentEnd = i + 2 === glob.length || glob[i + 2] === "/";
+        if (atSegmentStart && atSegmentEnd) {
+          if (i + 2 === glob.length) {
+            source += ".*"; // Trailing "**" matches everything below
+          } else {
+            source += "(?:.*/)?"; // "**/" matches zero or more directories
+            i++; // Also consume the slash
+          }
+          i += 2;
+          continue;
+        }
+      }
+      source += "[^/]*";
+      i++;
+      continue;
+    }
+
+    if (char === "?") {
+      source += "[^/]";
+      i++;
+      continue;
+    }
+
+    if (char === "[") {
+      const close = glob.indexOf("]", i + 2);
+      if (close !== -1) {
+        let body = glob.substring(i + 1, close);
+        if (body.startsWith("!")) body = "^" + body.substring(1);
+        source += `[${body.replace(/\\/g, "\\\\")}]`;
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (char === "\\" && i + 1 < glob.length) {
+      source += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+      i += 2;
+      continue;
+    }
+
+    source += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    i++;
+  }
+
+  return source;
+}
+
+/**
+ * Compile a single gitignore-style pattern
+ * Returns null for blank lines and comments
+ */
+export function compileIgnorePattern(
+  line: string,
+  base: string = "",
+): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, "");
+  if (!pattern || pattern.startsWith("#")) return null;
+
+  let negate = false;
+  if (pattern.startsWith("!")) {
+    negate = true;
+    pattern = pattern.substring(1);
+  } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+    pattern = pattern.substring(1);
+  }
+
+  let dirOnly = false;
+  if (pattern.endsWith("/")) {
+    dirOnly = true;
+    pattern = pattern.replace(/\/+$/, "");
+  }
+  if (!pattern) return null;
+
+  // Patterns containing a slash are anchored to the ignore file's directory,
+  // otherwise they match a name at any depth below it
+  const anchored = pattern.includes("/");
+  const body = globToRegExpSource(pattern.replace(/^\//, ""));
+  const regex = new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`);
+
+  return { base, pattern: line.trim(), regex, negate, dirOnly };
+}
+
+/**
+ * Parse the contents of an ignore file into rules
+ */
+export function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const rule = compileIgnorePattern(line, base);
+    if (rule) rules.push(rule);
+  }
+  return rules;
+}
+
+/**
+ * Load the `.triageignore` file in a directory, if present
+ */
+export async function loadIgnoreRules(
+  dirPath: string,
+  base: string,
+): Promise<IgnoreRule[]> {
+  try {
+    const content = await fs.readFile(
+      path.join(dirPath, IGNORE_FILENAME),
+      "utf-8",
+    );
+    return parseIgnoreFile(content, base);
+  } catch (error) {
+    return []; // No ignore file in this directory
+  }
+}
+
+/**
+ * Check whether a single rule matches a path relative to the scan root
+ */
+function ruleMatches(
+  rule: IgnoreRule,
+  relativePath: string,
+  isDirectory: boolean,
+): boolean {
+  if (rule.dirOnly && !isDirectory) return false;
+
+  let candidate = relativePath;
+  if (rule.base) {
+    if (!relativePath.startsWith(rule.base + "/")) return false;
+    candidate = relativePath.substring(rule.base.length + 1);
+  }
+
+  return rule.regex.test(candidate);
+}
+
+/**
+ * Decide whether a path is ignored by gitignore-style rules
+ * Rules are evaluated in order and the last matching rule wins
+ */
+export function isIgnored(
+  relativePath: string,
+  isDirectory: boolean,
+  rules: IgnoreRule[],
+): boolean {
+  const normalized = relativePath.split(path.sep).join("/");
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (ruleMatches(rule, normalized, isDirectory)) {
+      ignored = !rule.negate;
+    }
+  }
+
+  return ignored;
+}
+
+/**
+ * Check whether a path matches any of the given glob rules
+ */
+export function matchesAnyPattern(
+  relativePath: string,
+  isDirectory: boolean,
+  rules: IgnoreRule[],
+): boolean {
+  const normalized = relativePath.split(path.sep).join("/");
+  return rules.some((rule) => ruleMatches(rule, normalized, isDirectory));
+}
+
+/**
+ * Compile command-line glob patterns (relative to the scan root)
+ */
+export function compileGlobs(patterns: string[]): IgnoreRule[] {
+  return patterns
+    .map((pattern) => compileIgnorePattern(pattern))
+    .filter((rule): rule is IgnoreRule => rule !== null && !rule.negate);
+}
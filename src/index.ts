@@ -1,49 +1,112 @@
 #!/usr/bin/env node
 
 import chalk from "chalk";
-import { program } from "commander";
+import { Command, program } from "commander";
 import { promises as fs } from "fs";
+import inquirer from "inquirer";
 import ora from "ora";
 import path from "path";
 import {
   analyzeClusteringResults,
   autoClusterFiles,
+  Cluster,
   FileItem,
+  formatFileSize,
+  getDisplayPath,
 } from "./clustering.js";
-import { EmbeddingService } from "./embeddings.js";
+import { findConfigFile, readConfig } from "./config.js";
+import { discoverFiles, DiscoveryOptions } from "./discovery.js";
+import {
+  duplicateGroupsToClusters,
+  findDuplicateGroups,
+  getReclaimableBytes,
+} from "./duplicates.js";
+import {
+  CHUNKING_MODES,
+  EmbeddingPlan,
+  EmbeddingService,
+} from "./embeddings.js";
+import { EXPORT_FORMATS, ExportFormat, writeClusterExport } from "./export.js";
+import {
+  buildEmbeddingEstimate,
+  displayEmbeddingEstimate,
+  EmbeddingEstimate,
+  formatCost,
+  mergeEmbeddingEstimates,
+} from "./estimate.js";
 import {
   detectAvailableTools,
   generateFileInfoText,
   generateFileInfoTextForDisplay,
+  registerStrategies,
 } from "./fileinfo.js";
 import { triageClusters } from "./interactive.js";
+import { ActionJournal, describeUndo } from "./journal.js";
+import {
+  ChatLabelOptions,
+  formatClusterTitle,
+  labelClusters,
+} from "./labels.js";
+import {
+  DEFAULT_NEAR_DUPLICATE_OPTIONS,
+  findNearDuplicates,
+  formatSimilarityScores,
+  NearDuplicateOptions,
+  nearDuplicateGroupsToClusters,
+} from "./nearduplicates.js";
+import {
+  applyPlanOperations,
+  buildPlan,
+  checkPlan,
+  describeOperation,
+  readPlan,
+  writePlan,
+} from "./plan.js";
+import {
+  createEmbeddingProvider,
+  EMBEDDING_PROVIDER_NAMES,
+  EmbeddingProvider,
+} from "./providers.js";
+import {
+  displayRedactionReport,
+  FileRedaction,
+  REDACTION_MODES,
+} from "./redaction.js";
+import { buildHtmlReport } from "./report.js";
+import {
+  collectCachedFiles,
+  getSearchSnippet,
+  rankBySimilarity,
+} from "./search.js";
+import {
+  restoreClusters,
+  SavedSession,
+  SessionStore,
+  snapshotClusters,
+} from "./session.js";
+import {
+  DeleteOptions,
+  getHomeTrashDir,
+  listTrashedFiles,
+  restoreTrashedFile,
+  TrashedFile,
+} from "./trash.js";
 
 async function processDirectory(
   dirPath: string,
   embeddingService: EmbeddingService,
+  discoveryOptions: DiscoveryOptions = {},
+  checkBudget?: (estimate: EmbeddingEstimate) => Promise<void>,
+  log: typeof console.log = console.log,
 ): Promise<FileItem[]> {
-  console.log(chalk.blue(`Processing directory: ${dirPath}`));
+  log(chalk.blue(`Processing directory: ${dirPath}`));
 
-  const files = await fs.readdir(dirPath);
   const fileItems: FileItem[] = [];
 
-  // Filter out hidden files, directories, and empty files
-  const validFiles = [];
-  for (const file of files) {
-    if (file.startsWith(".")) continue; // Skip hidden files
-
-    const filePath = path.join(dirPath, file);
-    try {
-      const stats = await fs.stat(filePath);
-      if (stats.isDirectory()) continue; // Skip directories
-      if (stats.size === 0) continue; // Skip empty files
-      validFiles.push({ file, filePath, stats });
-    } catch (error) {
-      console.log(chalk.red(`Error checking ${file}: ${error}`));
-    }
-  }
+  // Discover hidden-free, non-empty files (optionally walking subdirectories)
+  const validFiles = await discoverFiles(dirPath, discoveryOptions);
 
-  console.log(chalk.gray(`Found ${validFiles.length} valid files to process`));
+  log(chalk.gray(`Found ${validFiles.length} valid files to process`));
 
   if (validFiles.length === 0) {
     return fileItems;
@@ -55,17 +118,34 @@ async function processDirectory(
   let cachedCount = 0;
   let newEmbeddingCount = 0;
   let errorCount = 0;
+  const failures: Array<{ file: string; errorClass: string; error: string }> =
+    [];
+  let redactions: FileRedaction[] = [];
 
   try {
     spinner.text = `Getting embeddings for 0/${validFiles.length} files...`;
+    const onProgress = (current: number, total: number) => {
+      spinner.text = `Getting embeddings for ${current}/${total} files...`;
+    };
 
-    // Use the batch method with concurrency limits instead of individual calls
+    // Resolve cached files and extract content before any API call
     const filePaths = validFiles.map((f) => f.filePath);
-    const results = await embeddingService.getFileEmbeddings(
+    const plan = await embeddingService.prepareEmbeddings(
       filePaths,
-      (current, total) => {
-        spinner.text = `Getting embeddings for ${current}/${total} files...`;
-      },
+      onProgress,
+    );
+    redactions = collectRedactions(embeddingService, plan);
+
+    if (checkBudget && plan.pending.length > 0) {
+      spinner.stop();
+      await checkBudget(estimatePlan(embeddingService, plan));
+      spinner.start();
+    }
+
+    // Embed the remaining files in batched requests
+    const results = await embeddingService.embedPreparedFiles(
+      plan,
+      onProgress,
     );
 
     // Process the batch results
@@ -75,6 +155,11 @@ async function processDirectory(
 
       if (result.error) {
         errorCount++;
+        failures.push({
+          file,
+          errorClass: result.errorClass ?? "unknown",
+          error: result.error,
+        });
         spinner.text = `✗ Failed to get embedding for ${file}: ${result.error}`;
         continue;
       }
@@ -92,6 +177,8 @@ async function processDirectory(
         embedding: result.embedding,
         size: stats.size,
         lastModified: stats.mtime,
+        rootDir: dirPath,
+        strategy: result.strategy,
       });
 
       processedCount++;
@@ -115,9 +202,90 @@ async function processDirectory(
     );
   }
 
+  displayRedactionReport(
+    redactions,
+    (filePath) => path.relative(dirPath, filePath),
+    log,
+  );
+
+  // List files that failed permanently (after retries), grouped by cause
+  if (failures.length > 0) {
+    log(chalk.red(`\nFiles that could not be embedded:`));
+    failures
+      .sort((a, b) => a.errorClass.localeCompare(b.errorClass))
+      .forEach(({ file, errorClass, error }) => {
+        log(
+          chalk.red(`  • ${file}`),
+          chalk.yellow(`[${errorClass}]`),
+          chalk.gray(error),
+        );
+      });
+  }
+
   return fileItems;
 }
 
+/**
+ * List the files of an embedding plan whose content was redacted
+ */
+function collectRedactions(
+  embeddingService: EmbeddingService,
+  plan: EmbeddingPlan,
+): FileRedaction[] {
+  return plan.pending
+    .filter((file) => file.redactions)
+    .sort((a, b) => a.index - b.index)
+    .map((file) => ({
+      filePath: file.filePath,
+      mode: embeddingService.getRedactionMode(),
+      counts: file.redactions!,
+    }));
+}
+
+/**
+ * Build a cost estimate for the pending files of an embedding plan
+ */
+function estimatePlan(
+  embeddingService: EmbeddingService,
+  plan: EmbeddingPlan,
+): EmbeddingEstimate {
+  const settled = plan.results.filter(Boolean);
+  return buildEmbeddingEstimate(embeddingService.getProvider(), plan.pending, {
+    totalFiles: plan.totalFiles,
+    cachedFiles: settled.filter((r) => r.fromCache).length,
+    failedFiles: settled.filter((r) => r.error).length,
+  });
+}
+
+/**
+ * Extract content for uncached files in a directory and estimate the cost of
+ * embedding them, without calling the embedding provider
+ */
+async function estimateDirectory(
+  dirPath: string,
+  embeddingService: EmbeddingService,
+  discoveryOptions: DiscoveryOptions = {},
+): Promise<EmbeddingEstimate> {
+  const validFiles = await discoverFiles(dirPath, discoveryOptions);
+  const spinner = ora(`Extracting content for ${dirPath}...`).start();
+
+  const plan = await embeddingService.prepareEmbeddings(
+    validFiles.map((f) => f.filePath),
+    (current, total) => {
+      spinner.text = `Extracting content for ${current}/${total} files...`;
+    },
+  );
+
+  spinner.succeed(
+    `Scanned ${validFiles.length} files in ${dirPath} (${plan.pending.length} need new embeddings)`,
+  );
+  displayRedactionReport(
+    collectRedactions(embeddingService, plan),
+    (filePath) => path.relative(dirPath, filePath),
+  );
+  return estimatePlan(embeddingService, plan);
+}
+
 async function getFileInfo(
   filePath: string,
   embeddingService: EmbeddingService,
@@ -196,50 +364,770 @@ async function getFileInfo(
   }
 }
 
+/**
+ * Commander helper for options that may be given more than once
+ */
+function collectOption(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Print an error and exit
+ */
+function exitWithError(message: string): never {
+  console.error(chalk.red(`Error: ${message}`));
+  process.exit(1);
+}
+
+/**
+ * Where a command's progress goes. When an export takes stdout, progress
+ * goes to stderr and nothing may prompt
+ */
+interface ProgressOutput {
+  log: typeof console.log;
+  canPrompt: boolean;
+}
+
+const TERMINAL_OUTPUT: ProgressOutput = { log: console.log, canPrompt: true };
+
+/**
+ * Register the options shared by every command that scans and clusters
+ * directories: provider, embedding pipeline, clustering and discovery
+ */
+function addScanOptions(command: Command): Command {
+  return command
+    .option(
+      "-k, --openai-key <key>",
+      "API key (or set OPENAI_API_KEY; TRIAGE_EMBEDDING_API_KEY for openai-compatible servers)",
+    )
+    .option(
+      "--provider <name>",
+      `embedding provider: ${EMBEDDING_PROVIDER_NAMES.join(
+        ", ",
+      )} (or set TRIAGE_EMBEDDING_PROVIDER, default: openai)`,
+    )
+    .option(
+      "--base-url <url>",
+      "base URL of an OpenAI-compatible embeddings server (or set TRIAGE_EMBEDDING_BASE_URL)",
+    )
+    .option(
+      "--embedding-model <model>",
+      "embedding model name (or set TRIAGE_EMBEDDING_MODEL)",
+    )
+    .option(
+      "--embedding-dimensions <count>",
+      "embedding vector size (or set TRIAGE_EMBEDDING_DIMENSIONS)",
+    )
+    .option(
+      "--batch-size <count>",
+      "maximum files per embedding request (default depends on provider)",
+    )
+    .option(
+      "--batch-tokens <count>",
+      "maximum tokens per embedding request (default depends on provider)",
+    )
+    .option("-c, --min-cluster-size <size>", "minimum cluster size", "2")
+    .option(
+      "--target-clusters <count>",
+      "target number of clusters for auto-clustering (optional)",
+    )
+    .option(
+      "--strict-cache",
+      "use strict cache validation (slower but more reliable)",
+    )
+    .option(
+      "--max-retries <count>",
+      "retries for rate-limited or failed embedding requests",
+      "5",
+    )
+    .option(
+      "--retry-delay <ms>",
+      "base delay for exponential backoff between retries",
+      "1000",
+    )
+    .option(
+      "--chunking <mode>",
+      `embed long documents as overlapping chunks pooled into one vector (${CHUNKING_MODES.join(
+        ", ",
+      )})`,
+      "off",
+    )
+    .option("--chunk-size <tokens>", "tokens per chunk when chunking", "2048")
+    .option(
+      "--chunk-overlap <tokens>",
+      "tokens shared by consecutive chunks",
+      "256",
+    )
+    .option("--max-chunks <count>", "maximum chunks per file", "16")
+    .option(
+      "--redact <mode>",
+      `handle secrets and personal data before embedding (${REDACTION_MODES.join(
+        ", ",
+      )})`,
+      "mask",
+    )
+    .option(
+      "--budget <usd>",
+      "ask for confirmation before embedding when the estimated cost exceeds this amount",
+    )
+    .option("-y, --yes", "keep embedding without asking when over --budget")
+    .option("-r, --recursive", "scan subdirectories recursively")
+    .option(
+      "--max-depth <depth>",
+      "maximum subdirectory depth when scanning recursively (default: unlimited)",
+    )
+    .option(
+      "--include <glob>",
+      "only process files matching this glob (repeatable)",
+      collectOption,
+      [],
+    )
+    .option(
+      "--exclude <glob>",
+      "skip files and directories matching this glob (repeatable)",
+      collectOption,
+      [],
+    )
+    .option("--no-ignore-files", "do not read .triageignore files")
+    .option("--no-labels", "do not generate cluster labels and keywords")
+    .option(
+      "--label-model <model>",
+      "chat model that writes cluster labels from file names and keywords (or set TRIAGE_LABEL_MODEL)",
+    )
+    .option(
+      "--label-base-url <url>",
+      "base URL of an OpenAI-compatible chat endpoint for --label-model (or set TRIAGE_LABEL_BASE_URL)",
+    )
+    .option(
+      "--label-api-key <key>",
+      "API key for --label-base-url (or set TRIAGE_LABEL_API_KEY)",
+    )
+    .option(
+      "--allow-remote-labels",
+      "with --provider local, let --label-model send keywords from file content to OpenAI",
+    );
+}
+
+/**
+ * Register the options that choose how deleted files are disposed of
+ */
+function addDeleteOptions(command: Command): Command {
+  return command
+    .option(
+      "--permanent",
+      "delete files permanently instead of moving them to the trash",
+    )
+    .option(
+      "--quarantine <dir>",
+      "move deleted files to this folder instead of the system trash",
+    );
+}
+
+function getDeleteOptions(options: any): DeleteOptions {
+  if (options.permanent && options.quarantine) {
+    exitWithError("--permanent and --quarantine cannot be combined");
+  }
+  return options.permanent
+    ? { mode: "permanent" }
+    : options.quarantine
+    ? {
+        mode: "quarantine",
+        quarantineDir: path.resolve(options.quarantine),
+      }
+    : { mode: "trash" };
+}
+
+/**
+ * Create the embedding provider and service from command-line options
+ * Exits with an error when the options are invalid
+ */
+function createEmbeddingServiceFromOptions(options: any): {
+  provider: EmbeddingProvider;
+  embeddingService: EmbeddingService;
+} {
+  // Select the embedding provider (validates API keys and URLs)
+  let provider: EmbeddingProvider;
+  try {
+    provider = createEmbeddingProvider({
+      provider: options.provider,
+      apiKey: options.openaiKey,
+      baseURL: options.baseUrl,
+      model: options.embeddingModel,
+      dimensions:
+        options.embeddingDimensions !== undefined
+          ? parseInt(options.embeddingDimensions)
+          : undefined,
+      batchSize:
+        options.batchSize !== undefined
+          ? parseInt(options.batchSize)
+          : undefined,
+      batchTokens:
+        options.batchTokens !== undefined
+          ? parseInt(options.batchTokens)
+          : undefined,
+    });
+  } catch (error) {
+    exitWithError(`${error instanceof Error ? error.message : error}`);
+  }
+
+  const maxRetries = parseInt(options.maxRetries);
+  const retryDelay = parseInt(options.retryDelay);
+  if (
+    isNaN(maxRetries) ||
+    maxRetries < 0 ||
+    isNaN(retryDelay) ||
+    retryDelay < 0
+  ) {
+    exitWithError(
+      "--max-retries and --retry-delay must be non-negative integers",
+    );
+  }
+
+  // Create embedding service (validates chunking and redaction options)
+  try {
+    const embeddingService = new EmbeddingService(provider, false, {
+      retry: { maxRetries, baseDelayMs: retryDelay },
+      chunking: {
+        mode: options.chunking,
+        chunkTokens: parseInt(options.chunkSize),
+        overlapTokens: parseInt(options.chunkOverlap),
+        maxChunks: parseInt(options.maxChunks),
+      },
+      redaction: options.redact,
+    }); // verboseTools always false
+    return { provider, embeddingService };
+  } catch (error) {
+    exitWithError(`${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Register the extraction strategies declared in a config file, if there
+ * is one. Exits with an error when the config is invalid
+ */
+async function loadConfiguredStrategies(
+  log: typeof console.log = console.log,
+): Promise<void> {
+  const configPath = await findConfigFile();
+  if (!configPath) return;
+
+  try {
+    const { strategies } = await readConfig(configPath);
+    registerStrategies(strategies);
+    await detectAvailableTools();
+    const missing = strategies.filter(
+      (strategy) => !global.availableTools!.has(strategy.name),
+    );
+    log(
+      chalk.gray(
+        `Loaded ${strategies.length} extraction strategies from ${configPath}`,
+      ),
+    );
+    for (const strategy of missing) {
+      log(
+        chalk.yellow(
+          `⚠️  Strategy ${strategy.name} skipped: ${strategy.command} not found`,
+        ),
+      );
+    }
+  } catch (error) {
+    exitWithError(`${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Exit with an error unless every path is an accessible directory
+ */
+async function validateDirectories(directories: string[]): Promise<void> {
+  for (const dir of directories) {
+    try {
+      const stats = await fs.stat(dir);
+      if (!stats.isDirectory()) {
+        exitWithError(`${dir} is not a valid directory`);
+      }
+    } catch (error) {
+      exitWithError(`${dir} is not accessible`);
+    }
+  }
+}
+
+function buildDiscoveryOptions(options: any): DiscoveryOptions {
+  const maxDepth =
+    options.maxDepth !== undefined ? parseInt(options.maxDepth) : undefined;
+  if (maxDepth !== undefined && (isNaN(maxDepth) || maxDepth < 0)) {
+    exitWithError("--max-depth must be a non-negative integer");
+  }
+  return {
+    // --max-depth implies a recursive scan
+    recursive: options.recursive === true || maxDepth !== undefined,
+    maxDepth,
+    include: options.include,
+    exclude: options.exclude,
+    useIgnoreFiles: options.ignoreFiles !== false,
+    // Deleted files must not come back through a trash inside the root
+    skipDirs: [
+      getHomeTrashDir(),
+      ...(options.quarantine ? [path.resolve(options.quarantine)] : []),
+    ],
+  };
+}
+
+function parseBudget(options: any): number | undefined {
+  const budget =
+    options.budget !== undefined ? parseFloat(options.budget) : undefined;
+  if (budget !== undefined && (isNaN(budget) || budget < 0)) {
+    exitWithError("--budget must be a non-negative amount in USD");
+  }
+  return budget;
+}
+
+/**
+ * Read the near-duplicate thresholds, or undefined when the pass is off
+ */
+function parseNearDuplicateOptions(
+  options: any,
+): NearDuplicateOptions | undefined {
+  if (!options.nearDuplicates) {
+    return undefined;
+  }
+
+  const parseThreshold = (value: string, flag: string): number => {
+    const threshold = parseFloat(value);
+    if (isNaN(threshold) || threshold < 0 || threshold > 1) {
+      exitWithError(`${flag} must be a number between 0 and 1`);
+    }
+    return threshold;
+  };
+  return {
+    embeddingThreshold: parseThreshold(
+      options.similarityThreshold,
+      "--similarity-threshold",
+    ),
+    imageThreshold: parseThreshold(options.imageThreshold, "--image-threshold"),
+    textThreshold: parseThreshold(options.textThreshold, "--text-threshold"),
+  };
+}
+
+/**
+ * Build a callback that asks before spending more than the budget across
+ * all directories
+ */
+function createBudgetCheck(
+  budget: number | undefined,
+  embeddingService: EmbeddingService,
+  assumeYes: boolean,
+  output: ProgressOutput,
+): ((estimate: EmbeddingEstimate) => Promise<void>) | undefined {
+  if (budget === undefined) {
+    return undefined;
+  }
+
+  let estimatedSpend = 0;
+  return async (estimate: EmbeddingEstimate): Promise<void> => {
+    const projected =
+      estimate.providerCostUsd === null
+        ? null
+        : estimatedSpend + estimate.providerCostUsd;
+    if (projected !== null && projected <= budget) {
+      estimatedSpend = projected;
+      return;
+    }
+
+    displayEmbeddingEstimate(
+      embeddingService.getProvider(),
+      estimate,
+      output.log,
+    );
+    const overBudget = `Estimated spend (${formatCost(
+      projected,
+    )}) exceeds the budget of ${formatCost(budget)}`;
+    if (assumeYes) {
+      output.log(chalk.yellow(`${overBudget}; continuing (--yes)`));
+      estimatedSpend = projected ?? estimatedSpend;
+      return;
+    }
+    if (!output.canPrompt) {
+      await embeddingService.closeCache();
+      exitWithError(
+        `${overBudget} and stdout carries the export, so there is no way to ask; use --yes or --output-file`,
+      );
+    }
+    const { proceed } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "proceed",
+        message: `${overBudget}. Continue embedding?`,
+        default: false,
+      },
+    ]);
+    if (!proceed) {
+      await embeddingService.closeCache();
+      console.log(chalk.yellow("Aborted before embedding."));
+      process.exit(0);
+    }
+    estimatedSpend = projected ?? estimatedSpend;
+  };
+}
+
+/**
+ * Embed the files of every directory, each with its own cache
+ */
+async function embedDirectories(
+  directories: string[],
+  embeddingService: EmbeddingService,
+  options: any,
+  discoveryOptions: DiscoveryOptions,
+  output: ProgressOutput = TERMINAL_OUTPUT,
+): Promise<FileItem[]> {
+  const checkBudget = createBudgetCheck(
+    parseBudget(options),
+    embeddingService,
+    options.yes === true,
+    output,
+  );
+
+  // Process all directories with progress
+  const allFiles: FileItem[] = [];
+  const overallSpinner = ora(`Processing directories...`).start();
+
+  for (let i = 0; i < directories.length; i++) {
+    const dir = directories[i];
+    overallSpinner.text = `Processing directory ${i + 1}/${
+      directories.length
+    }: ${path.basename(dir)}`;
+
+    // Initialize cache for this directory
+    await embeddingService.initializeCache(
+      path.resolve(dir),
+      options.strictCache !== true,
+    );
+
+    const dirFiles = await processDirectory(
+      path.resolve(dir),
+      embeddingService,
+      discoveryOptions,
+      checkBudget,
+      output.log,
+    );
+    allFiles.push(...dirFiles);
+
+    // Close cache for this directory before moving to next
+    await embeddingService.closeCache();
+  }
+
+  overallSpinner.succeed(
+    `Completed processing ${directories.length} directories`,
+  );
+
+  output.log(chalk.green(`\nProcessed ${allFiles.length} files total`));
+  return allFiles;
+}
+
+/**
+ * Auto-cluster files and print the parameters chosen and an analysis
+ */
+async function autoClusterWithReport(
+  allFiles: FileItem[],
+  options: any,
+  log: typeof console.log = console.log,
+): Promise<Cluster[]> {
+  const targetClusters = options.targetClusters
+    ? parseInt(options.targetClusters)
+    : undefined;
+
+  // Cluster files with progress
+  log(chalk.blue("\nClustering files..."));
+
+  // Always use auto-clustering
+  log(
+    chalk.blue(
+      "🔄 Auto-clustering enabled - will adjust parameters automatically",
+    ),
+  );
+
+  const autoResult = await autoClusterFiles(
+    allFiles,
+    {
+      minClusterSize: parseInt(options.minClusterSize),
+    },
+    {
+      targetClusterCount: targetClusters,
+      enableVerbose: true, // Enable verbose output for better insights
+      log,
+    },
+  );
+
+  const clusters = autoResult.clusters;
+
+  // Show auto-clustering results
+  log(
+    chalk.green(
+      `✅ Auto-clustering completed in ${autoResult.iterations} iteration(s)`,
+    ),
+  );
+  log(chalk.blue(`📊 Final parameters:`, autoResult.finalOptions));
+
+  if (autoResult.adjustments.length > 0) {
+    log(chalk.yellow("\n🔧 Parameter adjustments made:"));
+    autoResult.adjustments.forEach((adjustment) => {
+      log(chalk.yellow(`  • ${adjustment}`));
+    });
+  }
+
+  log(chalk.green(`Created ${clusters.length} clusters`));
+
+  // Analyze clustering results and provide suggestions
+  const analysis = analyzeClusteringResults(clusters);
+  log(chalk.blue("\n📊 Clustering Analysis:"));
+  log(chalk.gray(`Total files: ${analysis.totalFiles}`));
+  log(chalk.gray(`Total clusters: ${analysis.totalClusters}`));
+  log(chalk.gray(`Size distribution:`));
+  Object.entries(analysis.sizeDistribution).forEach(([range, count]) => {
+    if (count > 0) {
+      log(chalk.gray(`  ${range}: ${count} clusters`));
+    }
+  });
+
+  if (analysis.suggestions.length > 0) {
+    log(chalk.yellow("\n💡 Suggestions for better clustering:"));
+    analysis.suggestions.forEach((suggestion) => {
+      log(chalk.yellow(`  • ${suggestion}`));
+    });
+  }
+
+  return clusters;
+}
+
+/**
+ * Find byte-identical files and turn them into duplicate clusters
+ */
+async function findDuplicatesWithReport(
+  allFiles: FileItem[],
+): Promise<Cluster[]> {
+  const spinner = ora("Looking for exact duplicates...").start();
+  const groups = await findDuplicateGroups(allFiles, (current, total) => {
+    spinner.text = `Hashing duplicate candidates ${current}/${total}...`;
+  });
+
+  if (groups.length === 0) {
+    spinner.succeed("No exact duplicates found");
+  } else {
+    spinner.succeed(
+      `Found ${groups.length} groups of exact duplicates (${formatFileSize(
+        getReclaimableBytes(groups),
+      )} reclaimable)`,
+    );
+  }
+  return duplicateGroupsToClusters(groups);
+}
+
+const NEAR_DUPLICATE_PAIRS_SHOWN = 10;
+
+/**
+ * Find similar but not identical files, list the closest pairs and turn
+ * the groups into near-duplicate clusters
+ */
+async function findNearDuplicatesWithReport(
+  allFiles: FileItem[],
+  embeddingService: EmbeddingService,
+  nearDuplicateOptions: NearDuplicateOptions,
+  firstId: number,
+  log: typeof console.log = console.log,
+): Promise<Cluster[]> {
+  const spinner = ora("Looking for near-duplicates...").start();
+  const { pairs, groups } = await findNearDuplicates(
+    allFiles,
+    embeddingService,
+    nearDuplicateOptions,
+    (current, total) => {
+      spinner.text = `Fingerprinting ${current}/${total} files...`;
+    },
+  );
+
+  if (pairs.length === 0) {
+    spinner.succeed("No near-duplicates found");
+    return [];
+  }
+  spinner.succeed(
+    `Found ${pairs.length} near-duplicate pairs in ${groups.length} groups`,
+  );
+
+  log(chalk.blue("\n🪞 Closest pairs:"));
+  pairs.slice(0, NEAR_DUPLICATE_PAIRS_SHOWN).forEach((pair) => {
+    log(
+      `  ${chalk.white(getDisplayPath(pair.a))} ↔ ${chalk.white(
+        getDisplayPath(pair.b),
+      )} ${chalk.gray(`(${formatSimilarityScores(pair.scores)})`)}`,
+    );
+  });
+  if (pairs.length > NEAR_DUPLICATE_PAIRS_SHOWN) {
+    log(
+      chalk.gray(`  ... and ${pairs.length - NEAR_DUPLICATE_PAIRS_SHOWN} more`),
+    );
+  }
+  return nearDuplicateGroupsToClusters(groups, firstId);
+}
+
+/**
+ * Label clusters from their keywords (or a chat model) and list them
+ * Duplicate clusters are named after their files and left out
+ */
+async function labelClustersWithReport(
+  clusters: Cluster[],
+  embeddingService: EmbeddingService,
+  options: any,
+  log: typeof console.log = console.log,
+): Promise<void> {
+  clusters = clusters.filter(
+    (cluster) =>
+      cluster.kind !== "duplicate" && cluster.kind !== "near-duplicate",
+  );
+  if (options.labels === false || clusters.length === 0) {
+    return;
+  }
+
+  const model = options.labelModel || process.env.TRIAGE_LABEL_MODEL;
+  const baseURL = options.labelBaseUrl || process.env.TRIAGE_LABEL_BASE_URL;
+  let chat: ChatLabelOptions | undefined;
+  if (model) {
+    // OpenAI keys only go to OpenAI; a custom server needs its own key
+    const apiKey = baseURL
+      ? options.labelApiKey || process.env.TRIAGE_LABEL_API_KEY
+      : options.openaiKey || process.env.OPENAI_API_KEY;
+    if (!baseURL && !apiKey) {
+      exitWithError(
+        "--label-model needs an OpenAI API key or --label-base-url",
+      );
+    }
+    // Keywords come from file content, which local embedding keeps on this
+    // machine unless sending it is asked for
+    if (
+      !baseURL &&
+      embeddingService.getProvider().name === "local" &&
+      options.allowRemoteLabels !== true
+    ) {
+      exitWithError(
+        "--label-model would send keywords from file content to OpenAI while --provider local keeps it on this machine; pass --label-base-url for a local chat server, or --allow-remote-labels",
+      );
+    }
+    chat = { model, baseURL, apiKey };
+  }
+
+  const spinner = ora("Labeling clusters...").start();
+  await labelClusters(
+    clusters,
+    embeddingService,
+    { chat },
+    (current, total) => {
+      spinner.text = `Extracting keywords from ${current}/${total} files...`;
+    },
+  );
+  spinner.succeed(`Labeled ${clusters.length} clusters`);
+
+  log(chalk.blue("\n🏷️  Clusters:"));
+  clusters.forEach((cluster) => {
+    log(
+      `  ${chalk.white(formatClusterTitle(cluster))} ${chalk.gray(
+        `(${cluster.files.length} files) ${(cluster.keywords ?? []).join(
+          ", ",
+        )}`,
+      )}`,
+    );
+  });
+}
+
 async function main() {
   program
     .name("file-triage")
+    // Let subcommands reuse option names such as --quarantine
+    .enablePositionalOptions()
     .description(
       "CLI tool for triaging files using embeddings and auto-clustering with database cache (auto-clustering always enabled, fast cache by default)",
     )
     .version("1.0.0")
-    .argument("[directories...]", "directories to process")
-    .option(
-      "-k, --openai-key <key>",
-      "OpenAI API key (or set OPENAI_API_KEY env var)",
-    )
+    .argument("[directories...]", "directories to process");
+  addScanOptions(program);
+  addDeleteOptions(program);
+  program
     .option(
       "-f, --file-info <file>",
       "show detailed information about a specific file including cache status and embedding text",
     )
-    .option("-c, --min-cluster-size <size>", "minimum cluster size", "2")
     .option(
-      "--target-clusters <count>",
-      "target number of clusters for auto-clustering (optional)",
+      "--estimate",
+      "extract content and report tokens and estimated embedding cost, then exit without calling the API",
     )
     .option(
-      "--strict-cache",
-      "use strict cache validation (slower but more reliable)",
+      "--resume [session]",
+      "continue the most recent interrupted triage session (or the given one) where it stopped",
+    )
+    .option(
+      "--output <format>",
+      `write clustering results as ${EXPORT_FORMATS.join(
+        ", ",
+      )} instead of starting interactive triage`,
+    )
+    .option(
+      "--output-file <file>",
+      "file to write --output results to (default: stdout)",
+    )
+    .option(
+      "--with-probability",
+      "include HDBSCAN membership probability in --output results",
+    )
+    .option(
+      "--report <file>",
+      "write a self-contained HTML report of the clusters instead of starting interactive triage",
+    )
+    .option(
+      "--no-duplicates",
+      "do not group byte-identical files into duplicate clusters",
+    )
+    .option(
+      "--near-duplicates",
+      "also group similar files (embeddings, image and text fingerprints) into near-duplicate clusters",
+    )
+    .option(
+      "--similarity-threshold <score>",
+      "minimum embedding cosine similarity for --near-duplicates",
+      DEFAULT_NEAR_DUPLICATE_OPTIONS.embeddingThreshold.toString(),
+    )
+    .option(
+      "--image-threshold <score>",
+      "minimum perceptual hash similarity of images for --near-duplicates",
+      DEFAULT_NEAR_DUPLICATE_OPTIONS.imageThreshold.toString(),
+    )
+    .option(
+      "--text-threshold <score>",
+      "minimum SimHash similarity of extracted text for --near-duplicates",
+      DEFAULT_NEAR_DUPLICATE_OPTIONS.textThreshold.toString(),
     )
     .option("--cache-stats", "show cache statistics and exit")
     .option("--cache-cleanup", "clean up stale cache entries and exit")
     .action(async (directories: string[], options) => {
       try {
-        // Validate OpenAI API key
-        const apiKey = options.openaiKey || process.env.OPENAI_API_KEY;
-        if (!apiKey) {
-          console.error(
-            chalk.red(
-              "Error: OpenAI API key is required. Set OPENAI_API_KEY environment variable or use -k flag.",
-            ),
-          );
-          process.exit(1);
+        const deleteOptions = getDeleteOptions(options);
+        const nearDuplicateOptions = parseNearDuplicateOptions(options);
+        const { provider, embeddingService } =
+          createEmbeddingServiceFromOptions(options);
+
+        const exportFormat: ExportFormat | undefined = options.output;
+        if (exportFormat !== undefined) {
+          if (!EXPORT_FORMATS.includes(exportFormat)) {
+            exitWithError(
+              `--output must be one of ${EXPORT_FORMATS.join(", ")}`,
+            );
+          }
         }
-
-        // Create embedding service
-        const embeddingService = new EmbeddingService(apiKey, false); // verboseTools always false
+        // Keep stdout for an export written there
+        const output: ProgressOutput =
+          exportFormat !== undefined && !options.outputFile
+            ? { log: console.error, canPrompt: false }
+            : TERMINAL_OUTPUT;
+        const { log } = output;
 
         // Initialize available tools before processing any files
+        await loadConfiguredStrategies(log);
         await detectAvailableTools();
 
         // Handle file-info option
@@ -291,17 +1179,30 @@ async function main() {
 
           const stats = await embeddingService.getCacheStats();
           if (stats) {
-            console.log(chalk.blue.bold(`Cache Statistics for: ${dir}`));
-            console.log(chalk.gray(`Total entries: ${stats.totalEntries}`));
-            console.log(chalk.gray(`Valid entries: ${stats.validEntries}`));
-            console.log(chalk.gray(`Stale entries: ${stats.staleEntries}`));
-            console.log(
+            log(chalk.blue.bold(`Cache Statistics for: ${dir}`));
+            log(chalk.gray(`Total entries: ${stats.totalEntries}`));
+            log(chalk.gray(`Valid entries: ${stats.validEntries}`));
+            log(chalk.gray(`Stale entries: ${stats.staleEntries}`));
+            log(
+              chalk.gray(
+                `Mismatched entries (other model, dimensions or pipeline): ${stats.mismatchedEntries}`,
+              ),
+            );
+            const provenance = embeddingService.getProvenance();
+            log(
+              chalk.gray(
+                `Current provenance: ${provenance.model}, ${
+                  provenance.dimensions ?? "native"
+                } dimensions, pipeline v${provenance.pipelineVersion}`,
+              ),
+            );
+            log(
               chalk.gray(
                 `Cache size: ${(stats.cacheSize / 1024 / 1024).toFixed(2)} MB`,
               ),
             );
           } else {
-            console.log(chalk.yellow("Cache not initialized"));
+            log(chalk.yellow("Cache not initialized"));
           }
 
           await embeddingService.closeCache();
@@ -323,14 +1224,14 @@ async function main() {
             options.strictCache !== true,
           );
 
-          console.log(chalk.blue(`Cleaning up stale cache entries in: ${dir}`));
+          log(chalk.blue(`Cleaning up stale cache entries in: ${dir}`));
           await embeddingService.cleanupCache();
 
           const stats = await embeddingService.getCacheStats();
           if (stats) {
-            console.log(chalk.green(`Cleanup completed!`));
-            console.log(chalk.gray(`Remaining entries: ${stats.totalEntries}`));
-            console.log(
+            log(chalk.green(`Cleanup completed!`));
+            log(chalk.gray(`Remaining entries: ${stats.totalEntries}`));
+            log(
               chalk.gray(
                 `Cache size: ${(stats.cacheSize / 1024 / 1024).toFixed(2)} MB`,
               ),
@@ -351,32 +1252,111 @@ async function main() {
           process.exit(1);
         }
 
-        // Validate directories
-        for (const dir of directories) {
-          try {
-            const stats = await fs.stat(dir);
-            if (!stats.isDirectory()) {
-              console.error(
-                chalk.red(`Error: ${dir} is not a valid directory`),
-              );
-              process.exit(1);
-            }
-          } catch (error) {
-            console.error(chalk.red(`Error: ${dir} is not accessible`));
+        await validateDirectories(directories);
+
+        // Look up the interrupted session before scanning, so the same
+        // directories are processed again
+        const sessionHome = path.resolve(directories[0]);
+        const sessionStore = new SessionStore(sessionHome);
+        let resumed: SavedSession | null = null;
+        if (options.resume) {
+          await sessionStore.initialize();
+          resumed = await sessionStore.loadUnfinished(
+            typeof options.resume === "string" ? options.resume : undefined,
+          );
+          if (!resumed) {
+            console.error(
+              chalk.red(
+                `Error: No interrupted session to resume in ${sessionHome}`,
+              ),
+            );
             process.exit(1);
           }
+          directories = resumed.directories;
+          log(
+            chalk.blue(
+              `Resuming session ${
+                resumed.sessionId
+              } (last saved ${resumed.updatedAt.toLocaleString()})`,
+            ),
+          );
+        }
+
+        let discoveryOptions = buildDiscoveryOptions(options);
+        if (resumed?.discoveryOptions) {
+          // Scan exactly as before, or files of the saved clusters that the
+          // new scan misses would come back as pending
+          const saved = {
+            ...resumed.discoveryOptions,
+            skipDirs: discoveryOptions.skipDirs,
+          };
+          if (JSON.stringify(saved) !== JSON.stringify(discoveryOptions)) {
+            log(
+              chalk.yellow(
+                "Using the scan options of the resumed session (recursion, depth, include/exclude and ignore files)",
+              ),
+            );
+          }
+          discoveryOptions = saved;
+        }
+        const budget = parseBudget(options);
+
+        // Handle estimate option: extraction and token counting only
+        if (options.estimate) {
+          const estimates: EmbeddingEstimate[] = [];
+          for (const dir of directories) {
+            await embeddingService.initializeCache(
+              path.resolve(dir),
+              options.strictCache !== true,
+            );
+            estimates.push(
+              await estimateDirectory(
+                path.resolve(dir),
+                embeddingService,
+                discoveryOptions,
+              ),
+            );
+            await embeddingService.closeCache();
+          }
+
+          const estimate = mergeEmbeddingEstimates(provider, estimates);
+          displayEmbeddingEstimate(provider, estimate, log);
+          if (
+            budget !== undefined &&
+            (estimate.providerCostUsd === null ||
+              estimate.providerCostUsd > budget)
+          ) {
+            log(
+              chalk.yellow(
+                `\n⚠️  Estimated cost exceeds the budget of ${formatCost(
+                  budget,
+                )}`,
+              ),
+            );
+          }
+          return;
         }
 
         const targetClusters = options.targetClusters
           ? parseInt(options.targetClusters)
           : undefined;
 
-        console.log(chalk.blue.bold("File Triage Tool"));
-        console.log(
+        log(chalk.blue.bold("File Triage Tool"));
+        log(
           chalk.gray(
             `Processing ${directories.length} directories with clustering parameters:\n` +
+              `  - Embedding provider: ${provider.name} (${provider.model}, ${
+                provider.dimensions ?? "native"
+              } dimensions)\n` +
               `  - Minimum cluster size: ${options.minClusterSize}\n` +
               `  - Auto-clustering: enabled\n` +
+              `  - Recursive scan: ${
+                discoveryOptions.recursive
+                  ? `enabled (max depth: ${
+                      discoveryOptions.maxDepth ?? "unlimited"
+                    })`
+                  : "disabled"
+              }\n` +
               (targetClusters
                 ? `  - Target clusters: ${targetClusters}\n`
                 : "") +
@@ -387,125 +1367,542 @@ async function main() {
         );
 
         if (options.strictCache !== true) {
-          console.log(
+          log(
             chalk.yellow(
               "⚡ Fast cache mode enabled (default) - validation uses file stats only (faster but less reliable)",
             ),
           );
         } else {
-          console.log(
+          log(
             chalk.yellow(
               "🔒 Strict cache mode enabled - validation uses full file content (slower but more reliable)",
             ),
           );
         }
 
-        // Process all directories with progress
-        const allFiles: FileItem[] = [];
-        const overallSpinner = ora(`Processing directories...`).start();
+        const allFiles = await embedDirectories(
+          directories,
+          embeddingService,
+          options,
+          discoveryOptions,
+          output,
+        );
 
-        for (let i = 0; i < directories.length; i++) {
-          const dir = directories[i];
-          overallSpinner.text = `Processing directory ${i + 1}/${
-            directories.length
-          }: ${path.basename(dir)}`;
+        if (allFiles.length === 0) {
+          log(chalk.yellow("No files to process. Exiting."));
+          return;
+        }
 
-          // Initialize cache for this directory
-          await embeddingService.initializeCache(
-            path.resolve(dir),
-            options.strictCache !== true,
+        let clusters: Cluster[];
+        if (resumed) {
+          clusters = restoreClusters(resumed.state.clusters, allFiles);
+          log(
+            chalk.blue(
+              `\nResuming at cluster ${resumed.state.clusterIndex + 1}/${
+                clusters.length
+              }`,
+            ),
+          );
+        } else {
+          clusters = await autoClusterWithReport(allFiles, options, log);
+          // Exact duplicates are triaged first, then near-duplicates
+          const duplicateClusters =
+            options.duplicates !== false
+              ? await findDuplicatesWithReport(allFiles)
+              : [];
+          const nearDuplicateClusters = nearDuplicateOptions
+            ? await findNearDuplicatesWithReport(
+                allFiles,
+                embeddingService,
+                nearDuplicateOptions,
+                -(duplicateClusters.length + 2),
+                log,
+              )
+            : [];
+          clusters = [
+            ...duplicateClusters,
+            ...nearDuplicateClusters,
+            ...clusters,
+          ];
+        }
+        await labelClustersWithReport(clusters, embeddingService, options, log);
+
+        if (exportFormat !== undefined) {
+          await writeClusterExport(
+            clusters,
+            exportFormat,
+            options.outputFile && path.resolve(options.outputFile),
+            { withProbability: options.withProbability === true },
           );
+          if (options.outputFile) {
+            log(
+              chalk.green(
+                `\nWrote ${exportFormat} results for ${allFiles.length} files to ${options.outputFile}`,
+              ),
+            );
+          }
+        }
 
-          const dirFiles = await processDirectory(
-            path.resolve(dir),
-            embeddingService,
+        if (options.report) {
+          const spinner = ora("Building report...").start();
+          const html = await buildHtmlReport(
+            clusters,
+            {
+              directories,
+              redaction: embeddingService.getRedactionMode(),
+            },
+            (current, total) => {
+              spinner.text = `Building report previews for ${current}/${total} files...`;
+            },
           );
-          allFiles.push(...dirFiles);
+          await fs.writeFile(path.resolve(options.report), html, "utf-8");
+          spinner.succeed(`Wrote HTML report to ${options.report}`);
+        }
 
-          // Close cache for this directory before moving to next
-          await embeddingService.closeCache();
+        if (exportFormat !== undefined || options.report) {
+          return;
         }
 
-        overallSpinner.succeed(
-          `Completed processing ${directories.length} directories`,
+        // Journal operations in the first directory's database so the
+        // session can be undone later
+        const journal = new ActionJournal(sessionHome, resumed?.sessionId);
+        await journal.initialize();
+        console.log(
+          chalk.gray(
+            `\nSession ${journal.sessionId} (undo later with: file-triage undo --session ${journal.sessionId} ${sessionHome})`,
+          ),
         );
 
-        console.log(chalk.green(`\nProcessed ${allFiles.length} files total`));
+        // Interactive triage, saving progress after every change so an
+        // interrupted session can be resumed with --resume
+        const sessionDirectories = directories.map((dir) => path.resolve(dir));
+        await sessionStore.initialize();
+        await triageClusters(clusters, {
+          deleteOptions,
+          journal,
+          resumeFrom: resumed
+            ? {
+                clusters,
+                clusterIndex: resumed.state.clusterIndex,
+                fileStatuses: resumed.state.fileStatuses,
+              }
+            : undefined,
+          onProgress: async ({ clusters, clusterIndex, fileStatuses }) =>
+            await sessionStore.save(
+              journal.sessionId,
+              sessionDirectories,
+              discoveryOptions,
+              {
+                clusters: snapshotClusters(clusters),
+                clusterIndex,
+                fileStatuses,
+              },
+            ),
+        });
+        await sessionStore.complete(journal.sessionId);
+        await sessionStore.close();
+        await journal.close();
+      } catch (error) {
+        console.error(chalk.red("Error:"), error);
+        process.exit(1);
+      }
+    });
 
-        if (allFiles.length === 0) {
-          console.log(chalk.yellow("No files to process. Exiting."));
+  program
+    .command("restore")
+    .description(
+      "restore files that were moved to the trash or a quarantine folder",
+    )
+    .argument(
+      "[paths...]",
+      "original paths of files (or directories whose files) to restore; lists trashed files when omitted",
+    )
+    .option(
+      "--quarantine <dir>",
+      "restore from this quarantine folder instead of the system trash",
+    )
+    .action(async (paths: string[], options) => {
+      const trashDir = options.quarantine
+        ? path.resolve(options.quarantine)
+        : getHomeTrashDir();
+      const entries = await listTrashedFiles(trashDir);
+
+      if (paths.length === 0) {
+        if (entries.length === 0) {
+          console.log(chalk.gray(`No trashed files in ${trashDir}`));
           return;
         }
+        console.log(chalk.blue.bold(`\nTrashed files in ${trashDir}:`));
+        entries.forEach((entry) => {
+          console.log(
+            `  ${chalk.white(entry.originalPath)} ${chalk.gray(
+              entry.deletionDate.toLocaleString(),
+            )}`,
+          );
+        });
+        return;
+      }
+
+      let failed = false;
+      for (const target of paths.map((p) => path.resolve(p))) {
+        // Entries are newest first; restore the latest version of each path
+        const matches = new Map<string, TrashedFile>();
+        for (const entry of entries) {
+          const isMatch =
+            entry.originalPath === target ||
+            entry.originalPath.startsWith(target + path.sep);
+          if (isMatch && !matches.has(entry.originalPath)) {
+            matches.set(entry.originalPath, entry);
+          }
+        }
 
-        // Cluster files with progress
-        console.log(chalk.blue("\nClustering files..."));
+        if (matches.size === 0) {
+          console.warn(chalk.yellow(`Nothing to restore for ${target}`));
+          continue;
+        }
+
+        for (const entry of matches.values()) {
+          try {
+            await restoreTrashedFile(entry);
+            console.log(chalk.green(`Restored: ${entry.originalPath}`));
+          } catch (error) {
+            failed = true;
+            console.error(
+              chalk.red(
+                `Could not restore ${entry.originalPath}: ${
+                  error instanceof Error ? error.message : error
+                }`,
+              ),
+            );
+          }
+        }
+      }
+
+      if (failed) {
+        process.exit(1);
+      }
+    });
+
+  program
+    .command("undo")
+    .description(
+      "undo the file operations of a triage session, most recent first",
+    )
+    .argument(
+      "[directory]",
+      "directory whose .triage.db holds the session (the first directory of the session)",
+      ".",
+    )
+    .option("--session <id>", "session to undo; lists sessions when omitted")
+    .action(async (directory: string, options) => {
+      const journal = new ActionJournal(path.resolve(directory));
+      await journal.initialize();
+
+      try {
+        if (!options.session) {
+          const sessions = await journal.listSessions();
+          if (sessions.length === 0) {
+            console.log(chalk.gray("No recorded sessions"));
+            return;
+          }
+          console.log(chalk.blue.bold("\nRecorded sessions:"));
+          sessions.forEach((session) => {
+            console.log(
+              `  ${chalk.white(session.sessionId)} ${chalk.gray(
+                `${session.startedAt.toLocaleString()}, ${
+                  session.actionCount
+                } actions, ${session.undoneCount} undone`,
+              )}`,
+            );
+          });
+          return;
+        }
+
+        const actions = await journal.getPendingActions(options.session);
+        if (actions.length === 0) {
+          console.log(
+            chalk.yellow(`Nothing to undo for session ${options.session}`),
+          );
+          return;
+        }
+
+        // Replay backwards; keep going past failures so one missing file
+        // doesn't block the rest
+        let failed = 0;
+        for (const entry of actions) {
+          try {
+            await journal.undo(entry);
+            console.log(chalk.green(describeUndo(entry)));
+          } catch (error) {
+            failed++;
+            console.error(
+              chalk.red(
+                `Could not undo ${entry.action} of ${entry.sourcePath}: ${
+                  error instanceof Error ? error.message : error
+                }`,
+              ),
+            );
+          }
+        }
 
-        let clusters;
-        // Always use auto-clustering
         console.log(
           chalk.blue(
-            "🔄 Auto-clustering enabled - will adjust parameters automatically",
+            `\nUndid ${actions.length - failed} of ${actions.length} actions`,
           ),
         );
+        if (failed > 0) {
+          process.exitCode = 1;
+        }
+      } finally {
+        await journal.close();
+      }
+    });
 
-        const autoResult = await autoClusterFiles(
-          allFiles,
-          {
-            minClusterSize: parseInt(options.minClusterSize),
-          },
-          {
-            targetClusterCount: targetClusters,
-            enableVerbose: true, // Enable verbose output for better insights
-          },
-        );
+  addScanOptions(
+    program
+      .command("plan")
+      .description(
+        "scan and cluster directories, then write the proposed actions to an editable plan file",
+      )
+      .argument("<directories...>", "directories to process")
+      .requiredOption("-o, --output <file>", "plan file to write (JSON)"),
+  ).action(async (directories: string[], options) => {
+    try {
+      const { embeddingService } = createEmbeddingServiceFromOptions(options);
+      await validateDirectories(directories);
+      const discoveryOptions = buildDiscoveryOptions(options);
+
+      await loadConfiguredStrategies();
+      await detectAvailableTools();
+      const allFiles = await embedDirectories(
+        directories,
+        embeddingService,
+        options,
+        discoveryOptions,
+      );
+      if (allFiles.length === 0) {
+        console.log(chalk.yellow("No files to process. Exiting."));
+        return;
+      }
+
+      // Exact duplicates come first so their copies are proposed for deletion
+      const clusters = [
+        ...(await findDuplicatesWithReport(allFiles)),
+        ...(await autoClusterWithReport(allFiles, options)),
+      ];
+      await labelClustersWithReport(clusters, embeddingService, options);
+      const outputPath = path.resolve(options.output);
+      const plan = buildPlan(clusters, directories);
+      await writePlan(outputPath, plan);
+      const proposed = plan.clusters
+        .flatMap((cluster) => cluster.files)
+        .filter((file) => file.action !== "keep").length;
+      console.log(
+        chalk.green(
+          `\nWrote plan for ${allFiles.length} files in ${clusters.length} clusters to ${outputPath} (${proposed} changes proposed)`,
+        ),
+      );
+      console.log(
+        chalk.gray(
+          `Review each file's action (keep, delete, move, rename), then run: file-triage apply ${options.output}`,
+        ),
+      );
+    } catch (error) {
+      console.error(chalk.red("Error:"), error);
+      process.exit(1);
+    }
+  });
+
+  addDeleteOptions(
+    program
+      .command("apply")
+      .description("apply the actions of a plan file written by `plan`")
+      .argument("<plan>", "plan file to apply")
+      .option("--dry-run", "show what would be done without changing files")
+      .option(
+        "--skip-conflicts",
+        "apply the remaining actions when some of them conflict",
+      ),
+  ).action(async (planPath: string, options) => {
+    try {
+      const deleteOptions = getDeleteOptions(options);
+      const plan = await readPlan(path.resolve(planPath));
+      const { operations, conflicts } = await checkPlan(plan);
+
+      if (operations.length === 0) {
+        console.log(chalk.yellow("The plan keeps every file; nothing to do."));
+        return;
+      }
+
+      if (conflicts.length > 0) {
+        console.log(chalk.red.bold(`\n${conflicts.length} conflicts:`));
+        conflicts.forEach(({ operation, reason }) => {
+          console.log(
+            chalk.red(`  ✗ ${describeOperation(operation)}: ${reason}`),
+          );
+        });
+        if (!options.skipConflicts) {
+          console.log(
+            chalk.yellow(
+              "\nNo files were changed. Fix the plan or rerun with --skip-conflicts.",
+            ),
+          );
+          process.exit(1);
+        }
+      }
 
-        clusters = autoResult.clusters;
+      const conflicting = new Set(conflicts.map((c) => c.operation));
+      const runnable = operations.filter((op) => !conflicting.has(op));
 
-        // Show auto-clustering results
+      if (options.dryRun) {
         console.log(
-          chalk.green(
-            `✅ Auto-clustering completed in ${autoResult.iterations} iteration(s)`,
-          ),
+          chalk.blue.bold(`\nWould apply ${runnable.length} actions:`),
+        );
+        runnable.forEach((operation) => {
+          console.log(`  ${describeOperation(operation)}`);
+        });
+        if (deleteOptions.mode === "permanent") {
+          console.log(
+            chalk.yellow("\nDeleted files would not be recoverable."),
+          );
+        }
+        return;
+      }
+
+      // Journal into the first plan directory so the run can be undone
+      const journalHome = plan.directories[0];
+      const journal = new ActionJournal(journalHome);
+      await journal.initialize();
+      try {
+        const applied = await applyPlanOperations(
+          runnable,
+          deleteOptions,
+          journal,
         );
+        console.log(chalk.green(`\nApplied ${applied} actions`));
+      } finally {
         console.log(
-          chalk.blue(`📊 Final parameters:`, autoResult.finalOptions),
+          chalk.gray(
+            `Session ${journal.sessionId} (undo with: file-triage undo --session ${journal.sessionId} ${journalHome})`,
+          ),
         );
+        await journal.close();
+      }
+    } catch (error) {
+      console.error(
+        chalk.red(`Error: ${error instanceof Error ? error.message : error}`),
+      );
+      process.exit(1);
+    }
+  });
 
-        if (autoResult.adjustments.length > 0) {
-          console.log(chalk.yellow("\n🔧 Parameter adjustments made:"));
-          autoResult.adjustments.forEach((adjustment) => {
-            console.log(chalk.yellow(`  • ${adjustment}`));
-          });
-        }
+  addDeleteOptions(
+    addScanOptions(
+      program
+        .command("search")
+        .description(
+          "rank files by similarity to a text query using their cached embeddings",
+        )
+        .argument("<query>", "what to look for, in plain words")
+        .argument("<directories...>", "directories whose cache to search")
+        .option("-n, --limit <count>", "number of matches to show", "10")
+        .option(
+          "--min-score <score>",
+          "only show matches with at least this cosine similarity",
+        )
+        .option("--triage", "triage the matches as one cluster"),
+    ),
+  ).action(async (query: string, directories: string[], options) => {
+    try {
+      const deleteOptions = getDeleteOptions(options);
+      const { embeddingService } = createEmbeddingServiceFromOptions(options);
+      await validateDirectories(directories);
+      const discoveryOptions = buildDiscoveryOptions(options);
+
+      const limit = parseInt(options.limit);
+      const minScore =
+        options.minScore !== undefined
+          ? parseFloat(options.minScore)
+          : undefined;
+      if (isNaN(limit) || limit <= 0) {
+        exitWithError("--limit must be a positive integer");
+      }
+      if (minScore !== undefined && isNaN(minScore)) {
+        exitWithError("--min-score must be a number");
+      }
 
-        console.log(chalk.green(`Created ${clusters.length} clusters`));
-
-        // Analyze clustering results and provide suggestions
-        const analysis = analyzeClusteringResults(clusters);
-        console.log(chalk.blue("\n📊 Clustering Analysis:"));
-        console.log(chalk.gray(`Total files: ${analysis.totalFiles}`));
-        console.log(chalk.gray(`Total clusters: ${analysis.totalClusters}`));
-        console.log(chalk.gray(`Size distribution:`));
-        Object.entries(analysis.sizeDistribution).forEach(([range, count]) => {
-          if (count > 0) {
-            console.log(chalk.gray(`  ${range}: ${count} clusters`));
-          }
-        });
+      // Entries extracted by a configured strategy are only valid with it
+      await loadConfiguredStrategies();
+      await detectAvailableTools();
+      const { files, uncachedCount } = await collectCachedFiles(
+        directories,
+        embeddingService,
+        discoveryOptions,
+        options.strictCache !== true,
+      );
+      if (uncachedCount > 0) {
+        console.log(
+          chalk.yellow(
+            `${uncachedCount} files have no cached embedding for this provider and pipeline and were not searched (run file-triage on the directories to embed them)`,
+          ),
+        );
+      }
+      if (files.length === 0) {
+        console.log(chalk.yellow("No cached embeddings to search."));
+        return;
+      }
 
-        if (analysis.suggestions.length > 0) {
-          console.log(chalk.yellow("\n💡 Suggestions for better clustering:"));
-          analysis.suggestions.forEach((suggestion) => {
-            console.log(chalk.yellow(`  • ${suggestion}`));
-          });
+      const queryEmbedding = await embeddingService.embedQuery(query);
+      const results = rankBySimilarity(queryEmbedding, files, limit, minScore);
+      if (results.length === 0) {
+        console.log(chalk.yellow("No matches."));
+        return;
+      }
+
+      console.log(
+        chalk.blue.bold(`\nTop ${results.length} matches for "${query}":`),
+      );
+      for (const [index, { file, score }] of results.entries()) {
+        console.log(
+          `${chalk.gray(`${(index + 1).toString().padStart(2)}.`)} ${chalk.cyan(
+            score.toFixed(3),
+          )} ${chalk.white(getDisplayPath(file))}`,
+        );
+        const snippet = await getSearchSnippet(file.filePath, embeddingService);
+        if (snippet) {
+          console.log(chalk.gray(`      ${snippet}`));
         }
+      }
 
-        // Interactive triage
-        await triageClusters(clusters);
-      } catch (error) {
-        console.error(chalk.red("Error:"), error);
-        process.exit(1);
+      if (options.triage) {
+        const journal = new ActionJournal(path.resolve(directories[0]));
+        await journal.initialize();
+        console.log(
+          chalk.gray(
+            `\nSession ${journal.sessionId} (undo later with: file-triage undo --session ${
+              journal.sessionId
+            } ${path.resolve(directories[0])})`,
+          ),
+        );
+        await triageClusters(
+          [
+            {
+              id: 0,
+              files: results.map((result) => result.file),
+              label: `Search: ${query}`,
+            },
+          ],
+          { deleteOptions, journal },
+        );
+        await journal.close();
       }
-    });
+    } catch (error) {
+      console.error(
+        chalk.red(`Error: ${error instanceof Error ? error.message : error}`),
+      );
+      process.exit(1);
+    }
+  });
 
   // Graceful shutdown handler
   process.on("SIGINT", async () => {
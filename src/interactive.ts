@@ -1,5 +1,6 @@
 import chalk from "chalk";
 import { spawn } from "child_process";
+import { promises as fs } from "fs";
 import inquirer from "inquirer";
 import path from "path";
 import {
@@ -7,36 +8,482 @@ import {
   FileItem,
   formatDate,
   formatFileSize,
+  getDisplayPath,
   splitCluster,
 } from "./clustering.js";
+import { displayFileComparison } from "./compare.js";
+import { chooseFileToKeep, KeepStrategy } from "./duplicates.js";
 import { displayFileInfo } from "./fileinfo.js";
-import { deleteFile, renameFile } from "./operations.js";
+import { promptForFolder, suggestFoldersFromClusters } from "./folderpicker.js";
+import { ActionJournal, describeUndo } from "./journal.js";
+import { formatClusterTitle } from "./labels.js";
+import { deleteFile, moveFile, renameFile } from "./operations.js";
+import { rankBySimilarity } from "./search.js";
+import { DeleteOptions } from "./trash.js";
 
-interface FileStatus {
+export interface FileStatus {
   originalPath: string;
   currentPath: string;
-  status: "pending" | "deleted" | "skipped" | "renamed" | "processed";
+  status:
+    | "pending"
+    | "deleted"
+    | "skipped"
+    | "renamed"
+    | "processed"
+    | "moved"
+    | "undone";
   oldName?: string;
   newName?: string;
+  destination?: string; // Folder the file was moved to
   action?: string;
 }
 
+export interface TriageOptions {
+  deleteOptions?: DeleteOptions; // Defaults to moving files to the trash
+  journal?: ActionJournal; // Records operations so they can be undone
+  resumeFrom?: TriageProgress; // Continue an interrupted session
+  onProgress?: (progress: TriageProgress) => Promise<void>; // Called after every change
+}
+
+/**
+ * Position within a triage session
+ */
+export interface TriageProgress {
+  clusters: Cluster[];
+  clusterIndex: number;
+  fileStatuses: FileStatus[]; // Statuses of the files in clusters[clusterIndex]
+}
+
+/**
+ * Message shown after a file has been deleted in the given mode
+ */
+function describeDeletion(options: TriageOptions): string {
+  switch (options.deleteOptions?.mode ?? "trash") {
+    case "trash":
+      return "Moved to trash";
+    case "quarantine":
+      return "Quarantined";
+    case "permanent":
+      return "Deleted";
+  }
+}
+
+/**
+ * Delete a file and record the deletion in the session journal
+ */
+async function deleteAndRecord(
+  filePath: string,
+  options: TriageOptions,
+): Promise<void> {
+  const trashed = await deleteFile(filePath, options.deleteOptions);
+  await options.journal?.recordDelete(filePath, trashed);
+}
+
+/**
+ * Ask where to move a file, offering recent destinations and folders that
+ * hold files from other clusters
+ */
+async function pickDestination(
+  message: string,
+  file: FileItem,
+  options: TriageOptions,
+  allClusters: Cluster[],
+  currentClusterIndex: number,
+): Promise<string> {
+  return await promptForFolder({
+    message,
+    baseDir: file.rootDir ?? path.dirname(file.filePath),
+    recent: (await options.journal?.getRecentMoveDestinations()) ?? [],
+    suggestions: suggestFoldersFromClusters(allClusters, currentClusterIndex),
+    exclude: path.dirname(file.filePath),
+  });
+}
+
+/**
+ * Move a file into a folder, record it in the session journal and update
+ * its status
+ */
+async function moveAndRecord(
+  file: FileItem,
+  status: FileStatus,
+  destination: string,
+  options: TriageOptions,
+): Promise<void> {
+  const sourcePath = file.filePath;
+  const newPath = await moveFile(sourcePath, destination);
+  await options.journal?.recordMove("move", sourcePath, newPath);
+
+  status.status = "moved";
+  status.action = "Moved";
+  status.destination = destination;
+  status.currentPath = newPath;
+  file.filePath = newPath;
+}
+
+/**
+ * Undo the most recent action of the session and reflect it in the
+ * current cluster's statuses
+ */
+async function undoLastAction(
+  options: TriageOptions,
+  cluster: Cluster,
+  fileStatuses: FileStatus[],
+): Promise<void> {
+  if (!options.journal) {
+    console.log(chalk.yellow("Undo is not available in this session"));
+    return;
+  }
+
+  const [entry] = await options.journal.getPendingActions();
+  if (!entry) {
+    console.log(chalk.yellow("Nothing to undo"));
+    return;
+  }
+
+  try {
+    await options.journal.undo(entry);
+  } catch (error) {
+    console.error(
+      chalk.red(
+        `Could not undo ${entry.action}: ${
+          error instanceof Error ? error.message : error
+        }`,
+      ),
+    );
+    return;
+  }
+
+  console.log(chalk.green(`↩️  ${describeUndo(entry)}`));
+
+  // Point the affected file back at its original path
+  const index = fileStatuses.findIndex((status) =>
+    entry.action === "delete"
+      ? status.status === "deleted" && status.currentPath === entry.sourcePath
+      : status.currentPath === entry.destinationPath,
+  );
+  if (index !== -1) {
+    fileStatuses[index].status = "undone";
+    fileStatuses[index].action = "Undone";
+    fileStatuses[index].currentPath = entry.sourcePath;
+    fileStatuses[index].newName = path.basename(entry.sourcePath);
+    fileStatuses[index].destination = undefined;
+    cluster.files[index].filePath = entry.sourcePath;
+  }
+}
+
+/**
+ * Keep one copy of a duplicate group and delete the other pending copies
+ */
+async function keepOneCopy(
+  cluster: Cluster,
+  fileStatuses: FileStatus[],
+  strategy: KeepStrategy,
+  options: TriageOptions,
+): Promise<void> {
+  const pending = cluster.files.filter(
+    (_, index) => fileStatuses[index].status === "pending",
+  );
+  const kept = chooseFileToKeep(pending, strategy);
+
+  for (const file of pending) {
+    const status = fileStatuses[cluster.files.indexOf(file)];
+    if (file === kept) {
+      status.status = "processed";
+      status.action = "Kept";
+      console.log(chalk.green(`Kept: ${getDisplayPath(file)}`));
+      continue;
+    }
+    try {
+      await deleteAndRecord(file.filePath, options);
+    } catch (error) {
+      // Already reported by deleteFile; leave the file pending
+      continue;
+    }
+    status.status = "deleted";
+    status.action = "Deleted";
+    console.log(
+      chalk.red(`${describeDeletion(options)}: ${getDisplayPath(file)}`),
+    );
+  }
+}
+
+/**
+ * Compare a file side by side with another file of its cluster, asking
+ * which one when there are several
+ */
+async function compareWithClusterFile(
+  file: FileItem,
+  cluster: Cluster,
+): Promise<void> {
+  const others = cluster.files.filter((other) => other !== file);
+  if (others.length === 0) {
+    console.log(chalk.yellow("No other file to compare with"));
+    return;
+  }
+
+  let other = others[0];
+  if (others.length > 1) {
+    ({ other } = await inquirer.prompt([
+      {
+        type: "rawlist",
+        name: "other",
+        message: "Compare with:",
+        choices: others.map((candidate) => ({
+          name: getDisplayPath(candidate),
+          value: candidate,
+        })),
+      },
+    ]));
+  }
+  await displayFileComparison(file, other);
+}
+
+/**
+ * A file that resembles the one being triaged, and where it currently is
+ */
+interface SimilarFile {
+  file: FileItem;
+  score: number;
+  cluster: Cluster;
+}
+
+const SIMILAR_FILES_LIMIT = 10;
+
+/**
+ * Nearest neighbors of a file across all clusters, by cosine similarity
+ * Files that no longer exist (deleted or moved earlier) are left out
+ */
+async function findSimilarFiles(
+  file: FileItem,
+  allClusters: Cluster[],
+  limit: number = SIMILAR_FILES_LIMIT,
+): Promise<SimilarFile[]> {
+  const clusterOf = new Map<FileItem, Cluster>();
+  const candidates: FileItem[] = [];
+  for (const cluster of allClusters) {
+    for (const candidate of cluster.files) {
+      if (candidate === file || candidate.embedding.length === 0) continue;
+      clusterOf.set(candidate, cluster);
+      candidates.push(candidate);
+    }
+  }
+
+  const neighbors: SimilarFile[] = [];
+  for (const { file: candidate, score } of rankBySimilarity(
+    file.embedding,
+    candidates,
+    candidates.length,
+  )) {
+    try {
+      await fs.access(candidate.filePath);
+    } catch (error) {
+      continue;
+    }
+    neighbors.push({
+      file: candidate,
+      score,
+      cluster: clusterOf.get(candidate)!,
+    });
+    if (neighbors.length >= limit) break;
+  }
+  return neighbors;
+}
+
+/**
+ * Take a file out of another cluster so it isn't triaged again there
+ */
+function removeFromCluster(cluster: Cluster, file: FileItem): void {
+  const index = cluster.files.indexOf(file);
+  if (index !== -1) {
+    cluster.files.splice(index, 1);
+  }
+}
+
+/**
+ * Show the files most similar to the current one and act on a selection
+ * of them: delete, move, or pull them into the current cluster
+ */
+async function handleSimilarFiles(
+  file: FileItem,
+  cluster: Cluster,
+  fileStatuses: FileStatus[],
+  allClusters: Cluster[],
+  currentClusterIndex: number,
+  options: TriageOptions,
+): Promise<void> {
+  if (file.embedding.length === 0) {
+    console.log(chalk.yellow("This file has no embedding to compare"));
+    return;
+  }
+
+  const neighbors = await findSimilarFiles(file, allClusters);
+  if (neighbors.length === 0) {
+    console.log(chalk.yellow("No similar files found"));
+    return;
+  }
+
+  // Neighbors in this cluster can only be acted on while still pending
+  const statusOf = (neighbor: SimilarFile) =>
+    neighbor.cluster === cluster
+      ? fileStatuses[cluster.files.indexOf(neighbor.file)]
+      : undefined;
+
+  const { selected } = await inquirer.prompt([
+    {
+      type: "checkbox",
+      name: "selected",
+      message: "Similar files (select to act on them):",
+      choices: neighbors.map((neighbor) => {
+        const status = statusOf(neighbor);
+        const where =
+          neighbor.cluster === cluster
+            ? "this cluster"
+            : formatClusterTitle(neighbor.cluster);
+        return {
+          name: `${neighbor.score.toFixed(3)} ${getDisplayPath(
+            neighbor.file,
+          )} ${chalk.gray(`[${where}]`)}`,
+          value: neighbor,
+          disabled:
+            status && status.status !== "pending" ? status.action : false,
+        };
+      }),
+    },
+  ]);
+  if (selected.length === 0) {
+    return;
+  }
+
+  const pullable = selected.filter(
+    (neighbor: SimilarFile) => neighbor.cluster !== cluster,
+  );
+  const { bulkAction } = await inquirer.prompt([
+    {
+      type: "rawlist",
+      name: "bulkAction",
+      message: `What would you like to do with ${selected.length} selected files?`,
+      choices: [
+        { name: "🗑️  Delete them", value: "delete", key: "d" },
+        { name: "📁 Move them to…", value: "move", key: "m" },
+        ...(pullable.length > 0
+          ? [
+              {
+                name: "🧲 Pull them into this cluster",
+                value: "pull",
+                key: "p",
+              },
+            ]
+          : []),
+        { name: "↩️  Cancel", value: "cancel", key: "x" },
+      ],
+    },
+  ]);
+
+  if (bulkAction === "pull") {
+    for (const neighbor of pullable as SimilarFile[]) {
+      removeFromCluster(neighbor.cluster, neighbor.file);
+      cluster.files.push(neighbor.file);
+      fileStatuses.push({
+        originalPath: neighbor.file.filePath,
+        currentPath: neighbor.file.filePath,
+        status: "pending",
+        oldName: path.basename(neighbor.file.filePath),
+        newName: path.basename(neighbor.file.filePath),
+      });
+    }
+    console.log(
+      chalk.green(`Pulled ${pullable.length} files into this cluster`),
+    );
+  } else if (bulkAction === "delete" || bulkAction === "move") {
+    const destination =
+      bulkAction === "move"
+        ? await pickDestination(
+            "Move selected files to folder:",
+            file,
+            options,
+            allClusters,
+            currentClusterIndex,
+          )
+        : "";
+
+    for (const neighbor of selected as SimilarFile[]) {
+      const displayPath = getDisplayPath(neighbor.file);
+      // Files from other clusters get a throwaway status
+      const status: FileStatus = statusOf(neighbor) ?? {
+        originalPath: neighbor.file.filePath,
+        currentPath: neighbor.file.filePath,
+        status: "pending",
+      };
+      try {
+        if (bulkAction === "delete") {
+          await deleteAndRecord(neighbor.file.filePath, options);
+          status.status = "deleted";
+          status.action = "Deleted";
+          console.log(
+            chalk.red(`${describeDeletion(options)}: ${displayPath}`),
+          );
+        } else {
+          await moveAndRecord(neighbor.file, status, destination, options);
+          console.log(chalk.green(`Moved: ${displayPath} → ${destination}`));
+        }
+      } catch (error) {
+        // Already reported by the file operation
+        continue;
+      }
+      if (neighbor.cluster !== cluster) {
+        removeFromCluster(neighbor.cluster, neighbor.file);
+      }
+    }
+  }
+
+  await options.onProgress?.({
+    clusters: allClusters,
+    clusterIndex: currentClusterIndex,
+    fileStatuses,
+  });
+  displayClusterSummary(cluster, fileStatuses);
+}
+
 /**
  * Main function to triage all clusters
  */
-export async function triageClusters(clusters: Cluster[]): Promise<void> {
+export async function triageClusters(
+  clusters: Cluster[],
+  options: TriageOptions = {},
+): Promise<void> {
   console.log(
     chalk.blue.bold(`\nFound ${clusters.length} clusters to triage.\n`),
   );
 
   let currentClusters = [...clusters]; // Create a mutable copy
-  let currentIndex = 0;
+  let currentIndex = options.resumeFrom?.clusterIndex ?? 0;
+  let resumeStatuses = options.resumeFrom?.fileStatuses;
 
   while (currentIndex < currentClusters.length) {
     const cluster = currentClusters[currentIndex];
+    if (!resumeStatuses) {
+      // Drop files deleted or moved away while triaging an earlier cluster,
+      // e.g. a copy trashed from a duplicate group
+      const present = await Promise.all(
+        cluster.files.map((file) =>
+          fs.access(file.filePath).then(
+            () => true,
+            () => false,
+          ),
+        ),
+      );
+      cluster.files = cluster.files.filter((_, index) => present[index]);
+    }
+    if (cluster.files.length === 0) {
+      // Every file was pulled into, or handled from, another cluster
+      currentIndex++;
+      continue;
+    }
     console.log(
       chalk.yellow.bold(
-        `\n=== Cluster ${cluster.id} (${cluster.files.length} files) ===`,
+        `\n=== ${formatClusterTitle(cluster)} (${
+          cluster.files.length
+        } files) ===`,
       ),
     );
 
@@ -46,11 +493,18 @@ export async function triageClusters(clusters: Cluster[]): Promise<void> {
       currentClusters.length,
       currentClusters,
       currentIndex,
+      options,
+      resumeStatuses,
     );
+    resumeStatuses = undefined; // Only the resumed cluster keeps its statuses
 
     if (result === "split") {
-      // Split the cluster and replace it with sub-clusters
-      const subClusters = await splitCluster(cluster);
+      // Split the cluster and replace it with sub-clusters. Files restored
+      // from a saved session without an embedding (already deleted) are left out
+      const subClusters = await splitCluster({
+        ...cluster,
+        files: cluster.files.filter((file) => file.embedding.length > 0),
+      });
 
       // Replace the current cluster with the sub-clusters
       currentClusters.splice(currentIndex, 1, ...subClusters);
@@ -82,19 +536,37 @@ async function triageCluster(
   totalClusters: number,
   allClusters: Cluster[],
   currentClusterIndex: number,
+  options: TriageOptions,
+  initialStatuses?: FileStatus[],
 ): Promise<boolean | string> {
-  // Initialize file statuses for this cluster
-  const fileStatuses: FileStatus[] = cluster.files.map((file) => ({
-    originalPath: file.filePath,
-    currentPath: file.filePath,
-    status: "pending",
-    oldName: path.basename(file.filePath),
-    newName: path.basename(file.filePath),
-  }));
+  // Initialize file statuses for this cluster, unless resuming it
+  const fileStatuses: FileStatus[] =
+    initialStatuses && initialStatuses.length === cluster.files.length
+      ? initialStatuses
+      : cluster.files.map((file) => ({
+          originalPath: file.filePath,
+          currentPath: file.filePath,
+          status: "pending",
+          oldName: path.basename(file.filePath),
+          newName: path.basename(file.filePath),
+        }));
+
+  const saveProgress = async () =>
+    await options.onProgress?.({
+      clusters: allClusters,
+      clusterIndex: currentClusterIndex,
+      fileStatuses,
+    });
+  await saveProgress();
 
   displayClusterSummary(cluster, fileStatuses);
 
   for (let i = 0; i < cluster.files.length; i++) {
+    // Files handled before the session was interrupted
+    if (fileStatuses[i].status !== "pending") {
+      continue;
+    }
+
     const file = cluster.files[i];
     const result = await triageFile(
       file,
@@ -106,23 +578,63 @@ async function triageCluster(
       cluster,
       allClusters,
       currentClusterIndex,
+      options,
     );
+    await saveProgress();
 
     if (result === "deleteAllRemaining") {
       // Delete all remaining files in cluster
       for (let j = i + 1; j < cluster.files.length; j++) {
+        if (fileStatuses[j].status !== "pending") continue;
         const remainingFile = cluster.files[j];
-        await deleteFile(remainingFile.filePath);
+        await deleteAndRecord(remainingFile.filePath, options);
         fileStatuses[j].status = "deleted";
         fileStatuses[j].action = "Deleted";
         console.log(
-          chalk.red(`Deleted: ${path.basename(remainingFile.filePath)}`),
+          chalk.red(
+            `${describeDeletion(options)}: ${getDisplayPath(remainingFile)}`,
+          ),
         );
       }
+      await saveProgress();
 
       // Show final cluster state after bulk deletion
       displayClusterSummary(cluster, fileStatuses);
 
+      console.log(chalk.cyan("Skipping to next cluster...\n"));
+      break;
+    } else if (result === "moveAllRemaining") {
+      // Move all remaining files in cluster to the folder chosen for this one
+      const destination = fileStatuses[i].destination!;
+      for (let j = i + 1; j < cluster.files.length; j++) {
+        if (fileStatuses[j].status !== "pending") continue;
+        const remainingFile = cluster.files[j];
+        try {
+          await moveAndRecord(
+            remainingFile,
+            fileStatuses[j],
+            destination,
+            options,
+          );
+          console.log(
+            chalk.green(
+              `Moved: ${path.basename(remainingFile.filePath)} → ${destination}`,
+            ),
+          );
+        } catch (error) {
+          // Already reported by moveFile; leave the file pending
+        }
+      }
+      await saveProgress();
+
+      // Show final cluster state after bulk move
+      displayClusterSummary(cluster, fileStatuses);
+
+      console.log(chalk.cyan("Skipping to next cluster...\n"));
+      break;
+    } else if (result === "keptOne") {
+      await saveProgress();
+      displayClusterSummary(cluster, fileStatuses);
       console.log(chalk.cyan("Skipping to next cluster...\n"));
       break;
     } else if (result === "split") {
@@ -151,10 +663,16 @@ function displayClusterSummary(
 ): void {
   const title = isFinal ? "Final cluster status:" : "Files in this cluster:";
   console.log(chalk.gray(`\n${title}`));
+  if (cluster.label) {
+    console.log(chalk.magenta(`  🏷️  ${cluster.label}`));
+  }
+  if (cluster.keywords && cluster.keywords.length > 0) {
+    console.log(chalk.gray(`  Keywords: ${cluster.keywords.join(", ")}`));
+  }
 
   // Calculate column widths for alignment
   const maxFileNameLength = Math.max(
-    ...cluster.files.map((f) => path.basename(f.filePath).length),
+    ...cluster.files.map((f) => getDisplayPath(f).length),
     20, // minimum width
   );
   const maxSizeLength = Math.max(
@@ -164,7 +682,7 @@ function displayClusterSummary(
 
   cluster.files.forEach((file, index) => {
     const status = fileStatuses[index];
-    const fileName = path.basename(file.filePath);
+    const fileName = getDisplayPath(file);
     const size = formatFileSize(file.size);
     const date = formatDate(file.lastModified);
 
@@ -197,6 +715,16 @@ function displayClusterSummary(
         statusColor = chalk.green;
         statusText = "Processed";
         break;
+      case "moved":
+        statusIcon = "📁";
+        statusColor = chalk.green;
+        statusText = `Moved to: ${status.destination}`;
+        break;
+      case "undone":
+        statusIcon = "↩️";
+        statusColor = chalk.yellow;
+        statusText = "Undone";
+        break;
       case "pending":
         statusIcon = "⏳";
         statusColor = chalk.gray;
@@ -230,6 +758,7 @@ function displayStatusSummary(fileStatuses: FileStatus[]): void {
   const skipped = fileStatuses.filter((s) => s.status === "skipped").length;
   const renamed = fileStatuses.filter((s) => s.status === "renamed").length;
   const processed = fileStatuses.filter((s) => s.status === "processed").length;
+  const moved = fileStatuses.filter((s) => s.status === "moved").length;
   const pending = fileStatuses.filter((s) => s.status === "pending").length;
 
   console.log(
@@ -238,6 +767,7 @@ function displayStatusSummary(fileStatuses: FileStatus[]): void {
     chalk.yellow(`⏭️ ${skipped}`),
     chalk.green(`✏️ ${renamed}`),
     chalk.green(`✅ ${processed}`),
+    chalk.green(`📁 ${moved}`),
     chalk.blue(`⏳ ${pending}`),
     chalk.gray(`/ ${total}`),
   );
@@ -263,6 +793,7 @@ async function triageFile(
   originalCluster: Cluster,
   allClusters: Cluster[],
   currentClusterIndex: number,
+  options: TriageOptions,
 ): Promise<boolean | string> {
   const fileName = path.basename(file.filePath);
   const size = formatFileSize(file.size);
@@ -285,17 +816,48 @@ async function triageFile(
       ),
     );
     console.log(
-      chalk.white.bold(`File: ${fileName}`),
+      chalk.white.bold(`File: ${getDisplayPath(file)}`),
       chalk.gray(`(${size}, ${date})`),
     );
     console.log(chalk.gray(`Path: ${file.filePath}`));
 
+    // Identical copies can be resolved in one step, near-duplicates compared
+    const groupChoices =
+      originalCluster.kind === "duplicate"
+        ? [
+            {
+              name: "🆕 Keep the newest copy, delete the rest",
+              value: "keepNewest",
+              key: "w",
+            },
+            {
+              name: "📜 Keep the oldest copy, delete the rest",
+              value: "keepOldest",
+              key: "o",
+            },
+            {
+              name: "📏 Keep the copy with the shortest path, delete the rest",
+              value: "keepShortestPath",
+              key: "t",
+            },
+          ]
+        : originalCluster.kind === "near-duplicate"
+        ? [
+            {
+              name: "⚖️  Compare with another file of this group",
+              value: "compare",
+              key: "k",
+            },
+          ]
+        : [];
+
     const { action } = await inquirer.prompt([
       {
         type: "rawlist",
         name: "action",
         message: "What would you like to do with this file?",
         choices: [
+          ...groupChoices,
           { name: "🗑️  Delete this file", value: "delete", key: "d" },
           { name: "⏭️  Skip to next file", value: "next", key: "n" },
           {
@@ -305,20 +867,28 @@ async function triageFile(
           },
           { name: "🚫 Skip to next cluster", value: "skipCluster", key: "s" },
           { name: "✏️  Rename this file", value: "rename", key: "r" },
+          { name: "📁 Move this file to…", value: "move", key: "m" },
+          {
+            name: "📁💥 Move this file and all remaining in cluster to…",
+            value: "moveAll",
+            key: "c",
+          },
+          { name: "🔍 Find similar files", value: "similar", key: "f" },
           { name: "ℹ️  Show file info", value: "info", key: "i" },
           { name: "🔀 Split this cluster", value: "split", key: "p" },
           { name: "🚪 Quit triage tool", value: "quit", key: "q" },
           { name: "👁️  Preview this file", value: "preview", key: "v" },
+          { name: "↩️  Undo last action", value: "undo", key: "u" },
         ],
       },
     ]);
 
     switch (action) {
       case "delete":
-        await deleteFile(file.filePath);
+        await deleteAndRecord(file.filePath, options);
         fileStatuses[fileIndex].status = "deleted";
         fileStatuses[fileIndex].action = "Deleted";
-        console.log(chalk.red(`Deleted: ${fileName}`));
+        console.log(chalk.red(`${describeDeletion(options)}: ${fileName}`));
 
         // Show updated cluster state
         displayClusterSummary(originalCluster, fileStatuses);
@@ -335,10 +905,10 @@ async function triageFile(
         return true;
 
       case "deleteAll":
-        await deleteFile(file.filePath);
+        await deleteAndRecord(file.filePath, options);
         fileStatuses[fileIndex].status = "deleted";
         fileStatuses[fileIndex].action = "Deleted";
-        console.log(chalk.red(`Deleted: ${fileName}`));
+        console.log(chalk.red(`${describeDeletion(options)}: ${fileName}`));
 
         // Show updated cluster state
         displayClusterSummary(originalCluster, fileStatuses);
@@ -359,6 +929,21 @@ async function triageFile(
 
         return false;
 
+      case "keepNewest":
+      case "keepOldest":
+      case "keepShortestPath":
+        await keepOneCopy(
+          originalCluster,
+          fileStatuses,
+          action === "keepNewest"
+            ? "newest"
+            : action === "keepOldest"
+            ? "oldest"
+            : "shortest-path",
+          options,
+        );
+        return "keptOne";
+
       case "split":
         console.log(
           chalk.blue(`\n🔀 Splitting cluster ${originalCluster.id}...`),
@@ -382,6 +967,7 @@ async function triageFile(
         if (newName && newName !== fileName) {
           const newPath = path.join(path.dirname(file.filePath), newName);
           await renameFile(file.filePath, newPath);
+          await options.journal?.recordMove("rename", file.filePath, newPath);
 
           // Update file status
           fileStatuses[fileIndex].status = "renamed";
@@ -404,10 +990,68 @@ async function triageFile(
 
         return true;
 
+      case "move":
+      case "moveAll": {
+        const destination = await pickDestination(
+          action === "move"
+            ? "Move to folder:"
+            : "Move all remaining files to folder:",
+          file,
+          options,
+          allClusters,
+          currentClusterIndex,
+        );
+
+        try {
+          await moveAndRecord(
+            file,
+            fileStatuses[fileIndex],
+            destination,
+            options,
+          );
+        } catch (error) {
+          // Already reported by moveFile
+          continue; // Stay on same file
+        }
+        console.log(chalk.green(`Moved: ${fileName} → ${destination}`));
+
+        // Show updated cluster state
+        displayClusterSummary(originalCluster, fileStatuses);
+
+        return action === "move" ? true : "moveAllRemaining";
+      }
+
       case "info":
         await displayFileInfo(file.filePath);
         continue; // Stay on same file
 
+      case "compare":
+        await compareWithClusterFile(file, originalCluster);
+        continue; // Stay on same file
+
+      case "similar":
+        await handleSimilarFiles(
+          file,
+          originalCluster,
+          fileStatuses,
+          allClusters,
+          currentClusterIndex,
+          options,
+        );
+        continue; // Stay on same file
+
+      case "undo":
+        await undoLastAction(options, originalCluster, fileStatuses);
+        await options.onProgress?.({
+          clusters: allClusters,
+          clusterIndex: currentClusterIndex,
+          fileStatuses,
+        });
+
+        // Show updated cluster state
+        displayClusterSummary(originalCluster, fileStatuses);
+        continue; // Stay on same file
+
       case "preview":
         if (process.platform === "darwin") {
           const qlmanage = spawn("qlmanage", ["-p", file.filePath]);
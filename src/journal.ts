@@ -0,0 +1,262 @@
+import { createClient } from "@libsql/client";
+import { randomBytes } from "crypto";
+import path from "path";
+import { EmbeddingCache } from "./cache.js";
+import { renameFile } from "./operations.js";
+import { restoreTrashedFile, TrashedFile } from "./trash.js";
+
+export type JournalActionType = "delete" | "rename" | "move";
+
+/**
+ * A file operation performed during a triage session
+ */
+export interface JournalEntry {
+  id: number;
+  sessionId: string;
+  action: JournalActionType;
+  sourcePath: string;
+  destinationPath: string | null; // Trashed location for deletes, null if permanent
+  trashDir: string | null;
+  trashName: string | null;
+  createdAt: Date;
+  undoneAt: Date | null;
+}
+
+export interface JournalSession {
+  sessionId: string;
+  startedAt: Date;
+  actionCount: number;
+  undoneCount: number;
+}
+
+/**
+ * Generate a session ID that sorts by start time, e.g. 20240131-142501-3fa9
+ */
+export function generateSessionId(date: Date = new Date()): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(
+    date.getDate(),
+  )}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(
+    date.getSeconds(),
+  )}`;
+  return `${stamp}-${randomBytes(2).toString("hex")}`;
+}
+
+function rowToEntry(row: any): JournalEntry {
+  return {
+    id: Number(row.id),
+    sessionId: row.session_id,
+    action: row.action,
+    sourcePath: row.source_path,
+    destinationPath: row.destination_path,
+    trashDir: row.trash_dir,
+    trashName: row.trash_name,
+    createdAt: new Date(Number(row.created_at)),
+    undoneAt: row.undone_at === null ? null : new Date(Number(row.undone_at)),
+  };
+}
+
+/**
+ * Describe a reversed journal action
+ */
+export function describeUndo(entry: JournalEntry): string {
+  switch (entry.action) {
+    case "delete":
+      return `Restored: ${entry.sourcePath}`;
+    case "rename":
+      return `Renamed back: ${path.basename(
+        entry.destinationPath!,
+      )} → ${path.basename(entry.sourcePath)}`;
+    case "move":
+      return `Moved back: ${entry.destinationPath} → ${entry.sourcePath}`;
+  }
+}
+
+/**
+ * Records the file operations of triage sessions in the `.triage.db` of a
+ * directory, so they can be undone during the session or afterwards
+ */
+export class ActionJournal {
+  private client: any;
+  private directory: string;
+  private isInitialized = false;
+  readonly sessionId: string;
+
+  constructor(directory: string, sessionId: string = generateSessionId()) {
+    this.directory = directory;
+    this.sessionId = sessionId;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
+    this.client = createClient({
+      url: `file:${path.join(this.directory, EmbeddingCache.DB_FILENAME)}`,
+    });
+
+    await this.client.execute(`
+      CREATE TABLE IF NOT EXISTS action_journal (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        action TEXT NOT NULL,
+        source_path TEXT NOT NULL,
+        destination_path TEXT,
+        trash_dir TEXT,
+        trash_name TEXT,
+        created_at INTEGER NOT NULL,
+        undone_at INTEGER
+      )
+    `);
+    await this.client.execute(`
+      CREATE INDEX IF NOT EXISTS idx_journal_session ON action_journal(session_id)
+    `);
+
+    this.isInitialized = true;
+  }
+
+  /**
+   * Record a delete; `trashed` is null when the file was unlinked
+   */
+  async recordDelete(
+    filePath: string,
+    trashed: TrashedFile | null,
+  ): Promise<void> {
+    await this.record(
+      "delete",
+      filePath,
+      trashed?.trashedPath ?? null,
+      trashed?.trashDir ?? null,
+      trashed?.name ?? null,
+    );
+  }
+
+  /**
+   * Record a rename or move from one path to another
+   */
+  async recordMove(
+    action: "rename" | "move",
+    sourcePath: string,
+    destinationPath: string,
+  ): Promise<void> {
+    await this.record(action, sourcePath, destinationPath, null, null);
+  }
+
+  private async record(
+    action: JournalActionType,
+    sourcePath: string,
+    destinationPath: string | null,
+    trashDir: string | null,
+    trashName: string | null,
+  ): Promise<void> {
+    await this.client.execute({
+      sql: `INSERT INTO action_journal (
+        session_id, action, source_path, destination_path, trash_dir, trash_name, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        this.sessionId,
+        action,
+        path.resolve(sourcePath),
+        destinationPath && path.resolve(destinationPath),
+        trashDir,
+        trashName,
+        Date.now(),
+      ],
+    });
+  }
+
+  /**
+   * Actions of a session that have not been undone, newest first
+   */
+  async getPendingActions(
+    sessionId: string = this.sessionId,
+  ): Promise<JournalEntry[]> {
+    const result = await this.client.execute({
+      sql: `SELECT * FROM action_journal
+            WHERE session_id = ? AND undone_at IS NULL
+            ORDER BY id DESC`,
+      args: [sessionId],
+    });
+    return result.rows.map(rowToEntry);
+  }
+
+  /**
+   * Folders that files were recently moved to, across all sessions, most
+   * recent first
+   */
+  async getRecentMoveDestinations(limit: number = 10): Promise<string[]> {
+    const result = await this.client.execute({
+      sql: `SELECT destination_path FROM action_journal
+            WHERE action = 'move' AND undone_at IS NULL
+            ORDER BY id DESC
+            LIMIT ?`,
+      args: [limit * 10],
+    });
+
+    const folders: string[] = [];
+    for (const row of result.rows) {
+      const folder = path.dirname(row.destination_path);
+      if (!folders.includes(folder)) folders.push(folder);
+      if (folders.length >= limit) break;
+    }
+    return folders;
+  }
+
+  /**
+   * Sessions recorded in this journal, newest first
+   */
+  async listSessions(): Promise<JournalSession[]> {
+    const result = await this.client.execute(`
+      SELECT session_id,
+             MIN(created_at) AS started_at,
+             COUNT(*) AS action_count,
+             COUNT(undone_at) AS undone_count
+      FROM action_journal
+      GROUP BY session_id
+      ORDER BY started_at DESC
+    `);
+    return result.rows.map((row: any) => ({
+      sessionId: row.session_id,
+      startedAt: new Date(Number(row.started_at)),
+      actionCount: Number(row.action_count),
+      undoneCount: Number(row.undone_count),
+    }));
+  }
+
+  /**
+   * Reverse a single action and mark it as undone
+   */
+  async undo(entry: JournalEntry): Promise<void> {
+    switch (entry.action) {
+      case "delete":
+        if (!entry.trashDir || !entry.trashName || !entry.destinationPath) {
+          throw new Error(
+            `${entry.sourcePath} was deleted permanently and cannot be restored`,
+          );
+        }
+        await restoreTrashedFile({
+          trashDir: entry.trashDir,
+          name: entry.trashName,
+          trashedPath: entry.destinationPath,
+          originalPath: entry.sourcePath,
+          deletionDate: entry.createdAt,
+        });
+        break;
+
+      case "rename":
+      case "move":
+        await renameFile(entry.destinationPath!, entry.sourcePath);
+        break;
+    }
+
+    await this.client.execute({
+      sql: `UPDATE action_journal SET undone_at = ? WHERE id = ?`,
+      args: [Date.now(), entry.id],
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.client) {
+      await this.client.close();
+    }
+  }
+}
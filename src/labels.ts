@@ -0,0 +1,268 @@
+import chalk from "chalk";
+import OpenAI from "openai";
+import pLimit from "p-limit";
+import path from "path";
+import { Cluster, FileItem } from "./clustering.js";
+import { EmbeddingService } from "./embeddings.js";
+
+/**
+ * Chat-completion endpoint used to write cluster labels
+ * File names and keywords are sent; keywords are terms of the files'
+ * extracted (redacted) text
+ */
+export interface ChatLabelOptions {
+  model: string;
+  baseURL?: string; // OpenAI-compatible server; defaults to OpenAI
+  apiKey?: string;
+}
+
+export interface LabelOptions {
+  keywordCount?: number;
+  chat?: ChatLabelOptions;
+}
+
+const DEFAULT_KEYWORD_COUNT = 5;
+const LABEL_KEYWORDS = 3;
+// Extraction runs external tools; a sample is enough to find keywords
+const MAX_FILES_PER_CLUSTER = 25;
+const MAX_TEXT_CHARS = 20_000;
+const EXTRACTION_CONCURRENCY = 8;
+// Filename tokens count as much as this many occurrences in the content
+const FILENAME_TOKEN_WEIGHT = 3;
+const CHAT_SAMPLE_FILES = 15;
+
+// Common English words plus words produced by extraction tools themselves
+// (metadata headers, redaction placeholders)
+const STOPWORDS = new Set(
+  `a about above after again against all also am an and any are as at be
+because been before being below between both but by can could did do does
+doing down during each few for from further had has have having he her here
+hers him his how i if in into is it its itself just me more most my no nor
+not now of off on once only or other our out over own same she should so
+some such than that the their them then there these they this those through
+to too under until up very was we were what when where which while who whom
+why will with would you your yours file files filename size bytes modified
+last content extension type data unknown redacted null true false plain text
+ascii utf http https www com org html image width height page pages`.split(
+    /\s+/,
+  ),
+);
+
+/**
+ * Split text into lowercase terms: words of three or more letters, with
+ * camelCase and snake_case split apart
+ */
+function tokenize(text: string): string[] {
+  return (
+    text
+      .replace(/([a-z])([A-Z])/g, "$1 $2")
+      .toLowerCase()
+      .match(/\p{L}[\p{L}\p{N}]*/gu) || []
+  ).filter((term) => term.length >= 3 && !STOPWORDS.has(term));
+}
+
+function countTerms(terms: string[], counts: Map<string, number>, weight = 1) {
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) ?? 0) + weight);
+  }
+}
+
+/**
+ * Term counts for a cluster: extracted text of a sample of its files plus
+ * every file name
+ */
+async function collectClusterTerms(
+  cluster: Cluster,
+  embeddingService: EmbeddingService,
+  limit: ReturnType<typeof pLimit>,
+  onFileDone: () => void,
+): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+
+  for (const file of cluster.files) {
+    const stem = path.basename(file.filePath, path.extname(file.filePath));
+    countTerms(tokenize(stem), counts, FILENAME_TOKEN_WEIGHT);
+  }
+
+  const sample = cluster.files.slice(0, MAX_FILES_PER_CLUSTER);
+  await Promise.all(
+    sample.map((file) =>
+      limit(async () => {
+        try {
+          const text = await embeddingService.extractText(file.filePath);
+          countTerms(tokenize(text.slice(0, MAX_TEXT_CHARS)), counts);
+        } catch (error) {
+          // Unreadable or vanished file; its name still counts
+        }
+        onFileDone();
+      }),
+    ),
+  );
+
+  return counts;
+}
+
+/**
+ * Rank terms per cluster with class-based TF-IDF: a term scores high when
+ * it is frequent in one cluster and rare across the others
+ */
+export function computeClusterKeywords(
+  clusterTerms: Map<string, number>[],
+  keywordCount: number = DEFAULT_KEYWORD_COUNT,
+): string[][] {
+  const totals = clusterTerms.map((counts) =>
+    [...counts.values()].reduce((sum, count) => sum + count, 0),
+  );
+  const averageTerms =
+    totals.reduce((sum, total) => sum + total, 0) /
+    Math.max(clusterTerms.length, 1);
+
+  // Frequency of each term across all clusters
+  const overall = new Map<string, number>();
+  clusterTerms.forEach((counts) => {
+    counts.forEach((count, term) =>
+      overall.set(term, (overall.get(term) ?? 0) + count),
+    );
+  });
+
+  return clusterTerms.map((counts, index) =>
+    [...counts.entries()]
+      .map(([term, count]) => ({
+        term,
+        score:
+          (count / Math.max(totals[index], 1)) *
+          Math.log(1 + averageTerms / overall.get(term)!),
+      }))
+      .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term))
+      .slice(0, keywordCount)
+      .map(({ term }) => term),
+  );
+}
+
+/**
+ * Label built from the top keywords, e.g. "invoice / total / due"
+ */
+function keywordLabel(keywords: string[]): string {
+  return keywords.slice(0, LABEL_KEYWORDS).join(" / ");
+}
+
+/**
+ * Ask a chat model for a short label from file names and keywords
+ */
+async function requestChatLabel(
+  client: OpenAI,
+  model: string,
+  files: FileItem[],
+  keywords: string[],
+): Promise<string | null> {
+  const names = files
+    .slice(0, CHAT_SAMPLE_FILES)
+    .map((file) => path.basename(file.filePath));
+  const response = await client.chat.completions.create({
+    model,
+    temperature: 0,
+    max_tokens: 20,
+    messages: [
+      {
+        role: "system",
+        content:
+          "You name groups of similar files. Reply with a label of at most five words and nothing else.",
+      },
+      {
+        role: "user",
+        content: `File names:\n${names.join("\n")}\n\nKeywords: ${keywords.join(
+          ", ",
+        )}`,
+      },
+    ],
+  });
+
+  const label = response.choices[0]?.message?.content
+    ?.trim()
+    .replace(/^["']|["']$/g, "");
+  return label ? label : null;
+}
+
+/**
+ * Set `label` and `keywords` on each cluster
+ * Keywords come from c-TF-IDF over extracted text and file names; labels
+ * are the top keywords unless a chat endpoint is configured
+ */
+export async function labelClusters(
+  clusters: Cluster[],
+  embeddingService: EmbeddingService,
+  options: LabelOptions = {},
+  onProgress?: (current: number, total: number) => void,
+): Promise<void> {
+  const limit = pLimit(EXTRACTION_CONCURRENCY);
+  const total = clusters.reduce(
+    (sum, cluster) =>
+      sum + Math.min(cluster.files.length, MAX_FILES_PER_CLUSTER),
+    0,
+  );
+  let completed = 0;
+
+  const clusterTerms = await Promise.all(
+    clusters.map((cluster) =>
+      collectClusterTerms(cluster, embeddingService, limit, () =>
+        onProgress?.(++completed, total),
+      ),
+    ),
+  );
+  const keywords = computeClusterKeywords(
+    clusterTerms,
+    options.keywordCount ?? DEFAULT_KEYWORD_COUNT,
+  );
+
+  const chat = options.chat;
+  const client = chat
+    ? new OpenAI({
+        apiKey: chat.apiKey || "not-needed",
+        baseURL: chat.baseURL,
+      })
+    : null;
+
+  for (let i = 0; i < clusters.length; i++) {
+    clusters[i].keywords = keywords[i];
+    clusters[i].label = keywordLabel(keywords[i]) || undefined;
+
+    if (client && chat) {
+      try {
+        const label = await requestChatLabel(
+          client,
+          chat.model,
+          clusters[i].files,
+          keywords[i],
+        );
+        if (label) {
+          clusters[i].label = label;
+        }
+      } catch (error) {
+        console.warn(
+          chalk.yellow(
+            `⚠️  Could not get a label for cluster ${clusters[i].id}: ${
+              error instanceof Error ? error.message : error
+            }`,
+          ),
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Title for a cluster in console output, e.g. "Cluster 3: invoice / total"
+ */
+export function formatClusterTitle(cluster: Cluster): string {
+  if (cluster.kind === "duplicate" || cluster.kind === "near-duplicate") {
+    const kind =
+      cluster.kind === "duplicate" ? "Duplicates" : "Near-duplicates";
+    const name = cluster.files[0]
+      ? path.basename(cluster.files[0].filePath)
+      : "";
+    // Sessions saved before groupNumber existed only have the id
+    return `${kind} ${cluster.groupNumber ?? -cluster.id - 1}: ${name}`;
+  }
+  const name = cluster.id === -1 ? "Unclustered" : `Cluster ${cluster.id}`;
+  return cluster.label ? `${name}: ${cluster.label}` : name;
+}
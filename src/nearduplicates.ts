@@ -0,0 +1,325 @@
+import { createHash } from "crypto";
+import pLimit from "p-limit";
+import path from "path";
+import { Cluster, cosineSimilarity, FileItem } from "./clustering.js";
+import { EmbeddingService } from "./embeddings.js";
+import { isImageFile } from "./fileinfo.js";
+import { hashFile } from "./hasher.js";
+import { runCommand, toCommandPath } from "./process.js";
+
+export type SimilaritySignal = "embedding" | "image" | "text";
+
+/**
+ * Minimum similarity (0-1) for each signal to flag two files
+ */
+export interface NearDuplicateOptions {
+  embeddingThreshold: number; // Cosine similarity of the embeddings
+  imageThreshold: number; // Share of matching perceptual hash bits
+  textThreshold: number; // Share of matching SimHash bits
+}
+
+export const DEFAULT_NEAR_DUPLICATE_OPTIONS: NearDuplicateOptions = {
+  embeddingThreshold: 0.95,
+  imageThreshold: 0.9,
+  textThreshold: 0.9,
+};
+
+/**
+ * Two files that look alike, with the score of each signal that matched
+ */
+export interface NearDuplicatePair {
+  a: FileItem;
+  b: FileItem;
+  scores: Partial<Record<SimilaritySignal, number>>;
+}
+
+export interface NearDuplicateResult {
+  pairs: NearDuplicatePair[]; // Most similar first
+  groups: FileItem[][]; // Files connected by pairs, largest first
+}
+
+/**
+ * Perceptual and textual fingerprints of a file, when available
+ */
+export interface FileSignature {
+  imageHash?: bigint;
+  textHash?: bigint;
+}
+
+const HASH_BITS = 64;
+const SHINGLE_WORDS = 3;
+// Short texts share most shingles by chance
+const MIN_SHINGLES = 8;
+const SIGNATURE_CONCURRENCY = 8;
+
+// Extraction strategies whose output is the document's own text, as opposed
+// to tool metadata that looks alike across unrelated files
+const TEXT_STRATEGIES = new Set([
+  "cat",
+  "head",
+  "gunzip",
+  "pdftotext",
+  "antiword",
+  "catdoc",
+  "xlsx2csv",
+]);
+
+/**
+ * Share of equal bits between two 64-bit hashes
+ */
+export function hashSimilarity(a: bigint, b: bigint): number {
+  let diff = a ^ b;
+  let distance = 0;
+  while (diff) {
+    distance += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return 1 - distance / HASH_BITS;
+}
+
+/**
+ * Difference hash of an image: shrink to 9x8 grayscale with ImageMagick and
+ * set one bit per pixel that is brighter than its right neighbour
+ * Survives re-encoding, resizing and small edits
+ */
+export async function computeImageHash(
+  filePath: string,
+): Promise<bigint | null> {
+  for (const command of ["magick", "convert"]) {
+    try {
+      const { stdout } = await runCommand(
+        command,
+        [
+          `${toCommandPath(filePath)}[0]`,
+          "-colorspace",
+          "Gray",
+          "-resize",
+          "9x8!",
+          "-depth",
+          "8",
+          "gray:-",
+        ],
+        { encoding: "buffer", maxBytes: 1024, timeout: 15000 },
+      );
+      if (stdout.length !== 72) continue;
+
+      let hash = 0n;
+      for (let row = 0; row < 8; row++) {
+        for (let col = 0; col < 8; col++) {
+          const left = stdout[row * 9 + col];
+          const right = stdout[row * 9 + col + 1];
+          hash = (hash << 1n) | (left > right ? 1n : 0n);
+        }
+      }
+      return hash;
+    } catch (error) {
+      // Tool missing or unsupported format; try the next option
+    }
+  }
+  return null;
+}
+
+/**
+ * SimHash of a text over word shingles: similar texts get hashes that
+ * differ in few bits
+ */
+export function computeTextHash(text: string): bigint | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  if (words.length - SHINGLE_WORDS + 1 < MIN_SHINGLES) {
+    return null;
+  }
+
+  const weights = new Array<number>(HASH_BITS).fill(0);
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+    const shingle = words.slice(i, i + SHINGLE_WORDS).join(" ");
+    const digest = createHash("md5").update(shingle).digest();
+    const value = digest.readBigUInt64BE(0);
+    for (let bit = 0; bit < HASH_BITS; bit++) {
+      weights[bit] += (value >> BigInt(bit)) & 1n ? 1 : -1;
+    }
+  }
+
+  let hash = 0n;
+  for (let bit = 0; bit < HASH_BITS; bit++) {
+    if (weights[bit] > 0) {
+      hash |= 1n << BigInt(bit);
+    }
+  }
+  return hash;
+}
+
+/**
+ * Fingerprint a file: a perceptual hash for images, a SimHash for files
+ * whose text could be extracted
+ */
+export async function computeSignature(
+  file: FileItem,
+  extractText: (filePath: string) => Promise<string>,
+): Promise<FileSignature> {
+  try {
+    if (isImageFile(path.extname(file.filePath).toLowerCase())) {
+      return {
+        imageHash: (await computeImageHash(file.filePath)) ?? undefined,
+      };
+    }
+    if (file.strategy && TEXT_STRATEGIES.has(file.strategy)) {
+      const textHash = computeTextHash(await extractText(file.filePath));
+      return { textHash: textHash ?? undefined };
+    }
+  } catch (error) {
+    // Unreadable or vanished file; compare embeddings only
+  }
+  return {};
+}
+
+/**
+ * Scores of the signals that reach their threshold for two files
+ */
+export function scorePair(
+  a: FileItem,
+  b: FileItem,
+  signatureA: FileSignature,
+  signatureB: FileSignature,
+  options: NearDuplicateOptions,
+): Partial<Record<SimilaritySignal, number>> {
+  const scores: Partial<Record<SimilaritySignal, number>> = {};
+  if (a.embedding.length > 0 && b.embedding.length > 0) {
+    const score = cosineSimilarity(a.embedding, b.embedding);
+    if (score >= options.embeddingThreshold) scores.embedding = score;
+  }
+  if (
+    signatureA.imageHash !== undefined &&
+    signatureB.imageHash !== undefined
+  ) {
+    const score = hashSimilarity(signatureA.imageHash, signatureB.imageHash);
+    if (score >= options.imageThreshold) scores.image = score;
+  }
+  if (signatureA.textHash !== undefined && signatureB.textHash !== undefined) {
+    const score = hashSimilarity(signatureA.textHash, signatureB.textHash);
+    if (score >= options.textThreshold) scores.text = score;
+  }
+  return scores;
+}
+
+/**
+ * Group files connected by pairs (union-find), largest group first
+ */
+function groupPairs(
+  files: FileItem[],
+  pairs: NearDuplicatePair[],
+): FileItem[][] {
+  const parent = new Map<FileItem, FileItem>(files.map((f) => [f, f]));
+  const find = (file: FileItem): FileItem => {
+    while (parent.get(file) !== file) {
+      file = parent.get(file)!;
+    }
+    return file;
+  };
+  for (const { a, b } of pairs) {
+    parent.set(find(a), find(b));
+  }
+
+  const groups = new Map<FileItem, FileItem[]>();
+  for (const file of files) {
+    const root = find(file);
+    groups.set(root, [...(groups.get(root) ?? []), file]);
+  }
+  return [...groups.values()]
+    .filter((group) => group.length > 1)
+    .sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Find files that are similar but not identical: pairs whose embeddings,
+ * image perceptual hashes or text SimHashes reach the configured thresholds
+ * Every pair of files is compared, so time grows with the square of the
+ * file count. Byte-identical pairs are left to the exact duplicate pass
+ */
+export async function findNearDuplicates(
+  files: FileItem[],
+  embeddingService: EmbeddingService,
+  options: NearDuplicateOptions = DEFAULT_NEAR_DUPLICATE_OPTIONS,
+  onProgress?: (current: number, total: number) => void,
+): Promise<NearDuplicateResult> {
+  const limit = pLimit(SIGNATURE_CONCURRENCY);
+  let completed = 0;
+  const signatures = await Promise.all(
+    files.map((file) =>
+      limit(async () => {
+        const signature = await computeSignature(file, (filePath) =>
+          embeddingService.extractText(filePath),
+        );
+        onProgress?.(++completed, files.length);
+        return signature;
+      }),
+    ),
+  );
+
+  const contentHashes = new Map<FileItem, Promise<string | null>>();
+  const getContentHash = (file: FileItem) => {
+    if (!contentHashes.has(file)) {
+      contentHashes.set(
+        file,
+        hashFile(file.filePath).catch(() => null),
+      );
+    }
+    return contentHashes.get(file)!;
+  };
+
+  const pairs: NearDuplicatePair[] = [];
+  for (let i = 0; i < files.length; i++) {
+    for (let j = i + 1; j < files.length; j++) {
+      const scores = scorePair(
+        files[i],
+        files[j],
+        signatures[i],
+        signatures[j],
+        options,
+      );
+      if (Object.keys(scores).length === 0) continue;
+
+      if (files[i].size === files[j].size) {
+        const [hashA, hashB] = await Promise.all([
+          getContentHash(files[i]),
+          getContentHash(files[j]),
+        ]);
+        if (hashA !== null && hashA === hashB) continue;
+      }
+      pairs.push({ a: files[i], b: files[j], scores });
+    }
+  }
+
+  const bestScore = (pair: NearDuplicatePair) =>
+    Math.max(...Object.values(pair.scores));
+  pairs.sort((a, b) => bestScore(b) - bestScore(a));
+
+  return { pairs, groups: groupPairs(files, pairs) };
+}
+
+/**
+ * Turn near-duplicate groups into clusters to triage ahead of the semantic
+ * ones, numbered on from `firstId` downwards (ids are negative like those
+ * of exact duplicate clusters)
+ */
+export function nearDuplicateGroupsToClusters(
+  groups: FileItem[][],
+  firstId: number,
+): Cluster[] {
+  return groups.map((files, index) => ({
+    id: firstId - index,
+    kind: "near-duplicate",
+    groupNumber: index + 1,
+    files,
+  }));
+}
+
+/**
+ * Describe the matching signals of a pair, e.g. "embedding 0.97, text 0.92"
+ */
+export function formatSimilarityScores(
+  scores: Partial<Record<SimilaritySignal, number>>,
+): string {
+  return Object.entries(scores)
+    .map(([signal, score]) => `${signal} ${score!.toFixed(2)}`)
+    .join(", ");
+}
@@ -1,12 +1,23 @@
 import { promises as fs } from "fs";
 import path from "path";
+import { DeleteOptions, getTrashDir, TrashedFile, trashFile } from "./trash.js";
 
 /**
- * Delete a file from the filesystem
+ * Delete a file, moving it to the trash or quarantine folder unless the
+ * permanent mode is selected
+ * Returns the trash entry, or null when the file was unlinked
  */
-export async function deleteFile(filePath: string): Promise<void> {
+export async function deleteFile(
+  filePath: string,
+  options: DeleteOptions = { mode: "trash" },
+): Promise<TrashedFile | null> {
   try {
+    const trashDir = getTrashDir(options);
+    if (trashDir) {
+      return await trashFile(filePath, trashDir);
+    }
     await fs.unlink(filePath);
+    return null;
   } catch (error) {
     console.error(`Error deleting file ${filePath}:`, error);
     throw error;
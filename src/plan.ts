@@ -0,0 +1,385 @@
+import chalk from "chalk";
+import { promises as fs } from "fs";
+import path from "path";
+import { Cluster, FileItem } from "./clustering.js";
+import { chooseFileToKeep } from "./duplicates.js";
+import { ActionJournal } from "./journal.js";
+import { deleteFile, moveFile, renameFile } from "./operations.js";
+import { DeleteOptions } from "./trash.js";
+
+export const PLAN_FORMAT_VERSION = 1;
+
+export type PlanActionType = "keep" | "delete" | "move" | "rename";
+
+export const PLAN_ACTION_TYPES: PlanActionType[] = [
+  "keep",
+  "delete",
+  "move",
+  "rename",
+];
+
+/**
+ * Proposed action for one file
+ * `destination` is a folder for moves and a new file name for renames
+ */
+export interface PlanFileEntry {
+  path: string; // Absolute path when the plan was written
+  action: PlanActionType;
+  destination?: string;
+  size: number; // Recorded so apply can detect files changed since planning
+  lastModified: string; // ISO timestamp
+}
+
+export interface PlanCluster {
+  id: number;
+  label?: string; // For reviewers; ignored by apply
+  files: PlanFileEntry[];
+}
+
+/**
+ * An editable triage plan as written by `file-triage plan`
+ */
+export interface TriagePlan {
+  version: number;
+  createdAt: string;
+  directories: string[];
+  clusters: PlanCluster[];
+}
+
+/**
+ * A single operation of a validated plan
+ */
+export interface PlanOperation {
+  clusterId: number;
+  sourcePath: string;
+  action: Exclude<PlanActionType, "keep">;
+  targetPath?: string; // Resulting path for moves and renames
+  destination?: string;
+}
+
+export interface PlanCheckResult {
+  operations: PlanOperation[];
+  conflicts: Array<{ operation: PlanOperation; reason: string }>;
+}
+
+/**
+ * Folder holding most of a cluster's files, if more than half of them
+ */
+function getMajorityFolder(files: FileItem[]): string | null {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    const folder = path.dirname(file.filePath);
+    counts.set(folder, (counts.get(folder) ?? 0) + 1);
+  }
+  for (const [folder, count] of counts) {
+    if (count > files.length / 2) {
+      return folder;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build a plan proposing actions from what the scan found:
+ * - exact duplicates keep the newest copy and delete the others
+ * - files of a semantic cluster move to the folder most of their siblings
+ *   are in
+ * Everything else is kept; reviewers edit actions from there
+ */
+export function buildPlan(
+  clusters: Cluster[],
+  directories: string[],
+): TriagePlan {
+  // Keyed by file path; a file in several clusters gets its action in the
+  // cluster it was proposed for only, so apply doesn't see it twice
+  const proposals = new Map<
+    string,
+    Pick<PlanFileEntry, "action" | "destination"> & { clusterId: number }
+  >();
+  for (const cluster of clusters) {
+    if (cluster.kind !== "duplicate") continue;
+    const kept = chooseFileToKeep(cluster.files, "newest");
+    for (const file of cluster.files) {
+      if (file !== kept) {
+        proposals.set(file.filePath, {
+          clusterId: cluster.id,
+          action: "delete",
+        });
+      }
+    }
+  }
+
+  for (const cluster of clusters) {
+    // Noise (-1) is not a group, so it suggests no folder
+    if ((cluster.kind ?? "semantic") !== "semantic" || cluster.id === -1) {
+      continue;
+    }
+    const remaining = cluster.files.filter(
+      (file) => proposals.get(file.filePath)?.action !== "delete",
+    );
+    const folder = getMajorityFolder(remaining);
+    if (!folder) continue;
+    for (const file of remaining) {
+      if (path.dirname(file.filePath) !== folder) {
+        proposals.set(file.filePath, {
+          clusterId: cluster.id,
+          action: "move",
+          destination: folder,
+        });
+      }
+    }
+  }
+
+  return {
+    version: PLAN_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    directories: directories.map((dir) => path.resolve(dir)),
+    clusters: clusters.map((cluster) => ({
+      id: cluster.id,
+      label: cluster.label,
+      files: cluster.files.map((file): PlanFileEntry => {
+        const proposal = proposals.get(file.filePath);
+        const proposed = proposal?.clusterId === cluster.id;
+        return {
+          path: file.filePath,
+          action: proposed ? proposal.action : "keep",
+          destination: proposed ? proposal.destination : undefined,
+          size: file.size,
+          lastModified: file.lastModified.toISOString(),
+        };
+      }),
+    })),
+  };
+}
+
+/**
+ * Reject plan formats we can't read, based on the file extension
+ */
+function assertJsonPlanFile(planPath: string): void {
+  const ext = path.extname(planPath).toLowerCase();
+  if (ext === ".yaml" || ext === ".yml") {
+    throw new Error(
+      "YAML plans are not supported yet; use a .json plan file instead",
+    );
+  }
+}
+
+/**
+ * Write a plan as pretty-printed JSON
+ */
+export async function writePlan(
+  planPath: string,
+  plan: TriagePlan,
+): Promise<void> {
+  assertJsonPlanFile(planPath);
+  await fs.writeFile(planPath, JSON.stringify(plan, null, 2) + "\n", "utf-8");
+}
+
+/**
+ * Read a plan and check its structure
+ * Throws with every problem found, so a hand-edited plan can be fixed in
+ * one pass
+ */
+export async function readPlan(planPath: string): Promise<TriagePlan> {
+  assertJsonPlanFile(planPath);
+
+  let plan: any;
+  try {
+    plan = JSON.parse(await fs.readFile(planPath, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Could not read plan ${planPath}: ${
+        error instanceof Error ? error.message : error
+      }`,
+    );
+  }
+
+  const errors: string[] = [];
+  if (plan?.version !== PLAN_FORMAT_VERSION) {
+    errors.push(
+      `Unsupported plan version ${plan?.version} (expected ${PLAN_FORMAT_VERSION})`,
+    );
+  }
+  if (!Array.isArray(plan?.directories) || plan.directories.length === 0) {
+    errors.push("Plan must list the directories it was created from");
+  }
+  if (!Array.isArray(plan?.clusters)) {
+    errors.push("Plan must contain a clusters array");
+  }
+
+  (Array.isArray(plan?.clusters) ? plan.clusters : []).forEach(
+    (cluster: any, clusterIndex: number) => {
+      if (!Array.isArray(cluster?.files)) {
+        errors.push(`clusters[${clusterIndex}]: missing files array`);
+        return;
+      }
+      cluster.files.forEach((file: any, fileIndex: number) => {
+        const where = `clusters[${clusterIndex}].files[${fileIndex}]`;
+        if (typeof file?.path !== "string" || !path.isAbsolute(file.path)) {
+          errors.push(`${where}: path must be an absolute path`);
+        }
+        if (!PLAN_ACTION_TYPES.includes(file?.action)) {
+          errors.push(
+            `${where}: action must be one of ${PLAN_ACTION_TYPES.join(", ")}`,
+          );
+        }
+        if (
+          (file?.action === "move" || file?.action === "rename") &&
+          (typeof file.destination !== "string" || file.destination === "")
+        ) {
+          errors.push(`${where}: ${file.action} requires a destination`);
+        }
+        if (
+          file?.action === "rename" &&
+          typeof file.destination === "string" &&
+          (file.destination.includes("/") || file.destination.includes("\\"))
+        ) {
+          errors.push(`${where}: rename destination must be a file name`);
+        }
+      });
+    },
+  );
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid plan ${planPath}:\n${errors.map((e) => `  - ${e}`).join("\n")}`,
+    );
+  }
+  return plan as TriagePlan;
+}
+
+/**
+ * Turn a plan into operations and find those that can't be applied safely:
+ * missing or changed files, files listed twice, and destinations that
+ * already exist or are targeted more than once
+ */
+export async function checkPlan(plan: TriagePlan): Promise<PlanCheckResult> {
+  const operations: PlanOperation[] = [];
+  const conflicts: PlanCheckResult["conflicts"] = [];
+  const seenSources = new Set<string>();
+  const claimedTargets = new Map<string, string>();
+
+  for (const cluster of plan.clusters) {
+    for (const file of cluster.files) {
+      if (file.action === "keep") continue;
+
+      const sourcePath = path.resolve(file.path);
+      let targetPath: string | undefined;
+      let destination = file.destination;
+      if (file.action === "move") {
+        // Relative folders are resolved against the first plan directory
+        destination = path.resolve(plan.directories[0], file.destination!);
+        targetPath = path.join(destination, path.basename(sourcePath));
+      } else if (file.action === "rename") {
+        targetPath = path.join(path.dirname(sourcePath), file.destination!);
+      }
+
+      const operation: PlanOperation = {
+        clusterId: cluster.id,
+        sourcePath,
+        action: file.action,
+        targetPath,
+        destination,
+      };
+      operations.push(operation);
+      const conflict = (reason: string) =>
+        conflicts.push({ operation, reason });
+
+      if (seenSources.has(sourcePath)) {
+        conflict("file appears more than once in the plan");
+        continue;
+      }
+      seenSources.add(sourcePath);
+
+      try {
+        const stats = await fs.stat(sourcePath);
+        if (
+          stats.size !== file.size ||
+          stats.mtime.toISOString() !== file.lastModified
+        ) {
+          conflict("file changed since the plan was written");
+        }
+      } catch (error) {
+        conflict("file no longer exists");
+        continue;
+      }
+
+      if (targetPath) {
+        if (targetPath === sourcePath) {
+          conflict("destination is the file's current location");
+          continue;
+        }
+        const claimedBy = claimedTargets.get(targetPath);
+        if (claimedBy) {
+          conflict(`${claimedBy} is also planned to end up at ${targetPath}`);
+          continue;
+        }
+        claimedTargets.set(targetPath, sourcePath);
+        try {
+          await fs.access(targetPath);
+          conflict(`${targetPath} already exists`);
+        } catch (error) {
+          // Target is free
+        }
+      }
+    }
+  }
+
+  return { operations, conflicts };
+}
+
+/**
+ * Describe an operation for previews and progress output
+ */
+export function describeOperation(operation: PlanOperation): string {
+  switch (operation.action) {
+    case "delete":
+      return `delete ${operation.sourcePath}`;
+    case "move":
+      return `move   ${operation.sourcePath} → ${operation.destination}`;
+    case "rename":
+      return `rename ${operation.sourcePath} → ${path.basename(
+        operation.targetPath!,
+      )}`;
+  }
+}
+
+/**
+ * Perform the operations of a plan, recording each one in the journal
+ * Stops at the first failure and returns how many operations succeeded
+ */
+export async function applyPlanOperations(
+  operations: PlanOperation[],
+  deleteOptions: DeleteOptions,
+  journal: ActionJournal,
+): Promise<number> {
+  let applied = 0;
+  for (const operation of operations) {
+    switch (operation.action) {
+      case "delete": {
+        const trashed = await deleteFile(operation.sourcePath, deleteOptions);
+        await journal.recordDelete(operation.sourcePath, trashed);
+        break;
+      }
+      case "move": {
+        const newPath = await moveFile(
+          operation.sourcePath,
+          operation.destination!,
+        );
+        await journal.recordMove("move", operation.sourcePath, newPath);
+        break;
+      }
+      case "rename":
+        await renameFile(operation.sourcePath, operation.targetPath!);
+        await journal.recordMove(
+          "rename",
+          operation.sourcePath,
+          operation.targetPath!,
+        );
+        break;
+    }
+    console.log(chalk.green(`✓ ${describeOperation(operation)}`));
+    applied++;
+  }
+  return applied;
+}
@@ -0,0 +1,144 @@
+import { spawn } from "child_process";
+import { constants, promises as fs } from "fs";
+import path from "path";
+
+export interface RunCommandOptions {
+  timeout?: number; // Milliseconds before the process is killed
+  maxBytes?: number; // Stdout kept; the process is stopped once it is reached
+  encoding?: "utf-8" | "buffer";
+}
+
+export interface CommandResult<T extends string | Buffer> {
+  stdout: T;
+  stderr: string;
+  truncated: boolean; // Stdout reached maxBytes and the rest was dropped
+}
+
+const DEFAULT_TIMEOUT = 10000;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const MAX_STDERR_BYTES = 64 * 1024;
+
+/**
+ * A file path as passed among a command's arguments: absolute, so a name
+ * such as "-rf" or "--output=x" can't be read as an option
+ */
+export function toCommandPath(filePath: string): string {
+  return path.resolve(filePath);
+}
+
+/**
+ * Run a program with an argument array, without a shell, so file names are
+ * passed through verbatim whatever characters they contain
+ * Rejects when the program can't be started, exits with a non-zero code or
+ * runs past the timeout (it is then killed). Output beyond maxBytes is
+ * dropped and the program stopped, which is not an error
+ */
+export function runCommand(
+  command: string,
+  args: string[],
+  options: RunCommandOptions & { encoding: "buffer" },
+): Promise<CommandResult<Buffer>>;
+export function runCommand(
+  command: string,
+  args: string[],
+  options?: RunCommandOptions,
+): Promise<CommandResult<string>>;
+export function runCommand(
+  command: string,
+  args: string[],
+  options: RunCommandOptions = {},
+): Promise<CommandResult<string | Buffer>> {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    const stdoutChunks: Buffer[] = [];
+    let stdoutBytes = 0;
+    let stderr = "";
+    let truncated = false;
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill("SIGKILL");
+    }, timeout);
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      if (truncated) return;
+      const room = maxBytes - stdoutBytes;
+      if (chunk.length >= room) {
+        stdoutChunks.push(chunk.subarray(0, room));
+        stdoutBytes = maxBytes;
+        truncated = true;
+        child.kill();
+        return;
+      }
+      stdoutChunks.push(chunk);
+      stdoutBytes += chunk.length;
+    });
+
+    child.stderr.on("data", (chunk: Buffer) => {
+      if (stderr.length < MAX_STDERR_BYTES) {
+        stderr += chunk.toString("utf-8");
+      }
+    });
+
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new Error(`${command} timed out after ${timeout} ms`));
+        return;
+      }
+      // A process stopped for producing too much output exits by signal
+      if (code !== 0 && !truncated) {
+        reject(
+          new Error(`${command} exited with code ${code}: ${stderr.trim()}`),
+        );
+        return;
+      }
+
+      const stdout = Buffer.concat(stdoutChunks);
+      resolve({
+        stdout:
+          options.encoding === "buffer" ? stdout : stdout.toString("utf-8"),
+        stderr,
+        truncated,
+      });
+    });
+  });
+}
+
+async function isExecutable(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath, constants.X_OK);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Check whether a program can be run: a command with a path separator is
+ * checked at that path, anything else is looked up on the PATH
+ */
+export async function commandExists(command: string): Promise<boolean> {
+  if (command.includes("/") || command.includes(path.sep)) {
+    return isExecutable(command);
+  }
+  const directories = (process.env.PATH ?? "").split(path.delimiter);
+  for (const directory of directories.filter(Boolean)) {
+    if (await isExecutable(path.join(directory, command))) {
+      return true;
+    }
+  }
+  return false;
+}
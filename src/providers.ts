@@ -0,0 +1,264 @@
+import OpenAI from "openai";
+
+export type EmbeddingProviderName = "openai" | "openai-compatible" | "local";
+
+export const EMBEDDING_PROVIDER_NAMES: EmbeddingProviderName[] = [
+  "openai",
+  "openai-compatible",
+  "local",
+];
+
+const DEFAULT_OPENAI_MODEL = "text-embedding-3-small";
+const DEFAULT_DIMENSIONS = 512;
+const LOCAL_MODEL = "hashing-v1";
+
+// Request limits: OpenAI documents 2048 inputs and 300k tokens per request;
+// self-hosted servers are usually configured far smaller
+const OPENAI_MAX_BATCH_SIZE = 2048;
+const OPENAI_MAX_BATCH_TOKENS = 300_000;
+const COMPATIBLE_MAX_BATCH_SIZE = 16;
+const COMPATIBLE_MAX_BATCH_TOKENS = 32_768;
+const LOCAL_MAX_BATCH_SIZE = 256;
+
+/**
+ * A backend that turns text into embedding vectors
+ */
+export interface EmbeddingProvider {
+  /** Provider identifier, e.g. "openai" */
+  readonly name: EmbeddingProviderName;
+  /** Model name sent to (or implemented by) the backend */
+  readonly model: string;
+  /**
+   * Requested vector size. Undefined means the model's native size, which
+   * is only known once the first vectors come back.
+   */
+  readonly dimensions?: number;
+  /** Maximum number of inputs in a single request */
+  readonly maxBatchSize: number;
+  /** Maximum total tokens across all inputs of a single request */
+  readonly maxBatchTokens: number;
+  /** Embed several texts, returning vectors in input order */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingProviderOptions {
+  provider?: string;
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;
+  dimensions?: number;
+  batchSize?: number;
+  batchTokens?: number;
+}
+
+/**
+ * OpenAI embeddings API, or any server that implements the same
+ * `/v1/embeddings` endpoint (llama.cpp server, Ollama, vLLM, ...)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  readonly dimensions?: number;
+  readonly maxBatchSize: number;
+  readonly maxBatchTokens: number;
+  private openai: OpenAI;
+
+  constructor(options: {
+    name: EmbeddingProviderName;
+    model: string;
+    dimensions?: number;
+    apiKey?: string;
+    baseURL?: string;
+    maxBatchSize: number;
+    maxBatchTokens: number;
+  }) {
+    this.name = options.name;
+    this.model = options.model;
+    this.dimensions = options.dimensions;
+    this.maxBatchSize = options.maxBatchSize;
+    this.maxBatchTokens = options.maxBatchTokens;
+    this.openai = new OpenAI({
+      // Local OpenAI-compatible servers usually don't check the key, but the
+      // client refuses to start without one
+      apiKey: options.apiKey || "not-needed",
+      baseURL: options.baseURL,
+      // Retries are handled by EmbeddingService so it can adapt concurrency
+      maxRetries: 0,
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.openai.embeddings.create({
+      model: this.model,
+      input: texts,
+      ...(this.dimensions !== undefined && { dimensions: this.dimensions }),
+    });
+
+    // Responses carry an index per input; don't rely on ordering
+    const vectors: number[][] = new Array(texts.length);
+    for (const item of response.data) {
+      vectors[item.index] = item.embedding;
+    }
+    return vectors;
+  }
+}
+
+/**
+ * Fully offline, in-process provider based on feature hashing
+ * Words and character trigrams are hashed into a fixed number of signed
+ * buckets, weighted by log term frequency and L2-normalized. No content
+ * leaves the machine, at the cost of purely lexical similarity.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name: EmbeddingProviderName = "local";
+  readonly model = LOCAL_MODEL;
+  readonly dimensions: number;
+  readonly maxBatchSize: number;
+  readonly maxBatchTokens = Infinity; // No request payload to bound
+
+  constructor(
+    dimensions: number = DEFAULT_DIMENSIONS,
+    maxBatchSize: number = LOCAL_MAX_BATCH_SIZE,
+  ) {
+    this.dimensions = dimensions;
+    this.maxBatchSize = maxBatchSize;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const counts = new Map<string, number>();
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    for (const word of words) {
+      counts.set(`w:${word}`, (counts.get(`w:${word}`) || 0) + 1);
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        const gram = `g:${padded.substring(i, i + 3)}`;
+        counts.set(gram, (counts.get(gram) || 0) + 1);
+      }
+    }
+
+    const vector = new Array(this.dimensions).fill(0);
+    counts.forEach((count, feature) => {
+      const hash = fnv1a(feature);
+      const bucket = hash % this.dimensions;
+      const sign = (hash >>> 31) & 1 ? -1 : 1;
+      vector[bucket] += sign * (1 + Math.log(count));
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Build an embedding provider from CLI options, falling back to
+ * TRIAGE_EMBEDDING_* environment variables and then to defaults
+ */
+export function createEmbeddingProvider(
+  options: EmbeddingProviderOptions = {},
+): EmbeddingProvider {
+  const providerName =
+    options.provider || process.env.TRIAGE_EMBEDDING_PROVIDER || "openai";
+  const model = options.model || process.env.TRIAGE_EMBEDDING_MODEL;
+  const baseURL = options.baseURL || process.env.TRIAGE_EMBEDDING_BASE_URL;
+
+  let dimensions = options.dimensions;
+  if (dimensions === undefined && process.env.TRIAGE_EMBEDDING_DIMENSIONS) {
+    dimensions = parseInt(process.env.TRIAGE_EMBEDDING_DIMENSIONS);
+  }
+  if (dimensions !== undefined && (isNaN(dimensions) || dimensions <= 0)) {
+    throw new Error("Embedding dimensions must be a positive integer");
+  }
+
+  const { batchSize, batchTokens } = options;
+  if (batchSize !== undefined && (isNaN(batchSize) || batchSize <= 0)) {
+    throw new Error("Batch size must be a positive integer");
+  }
+  if (batchTokens !== undefined && (isNaN(batchTokens) || batchTokens <= 0)) {
+    throw new Error("Batch token limit must be a positive integer");
+  }
+
+  switch (providerName) {
+    case "openai": {
+      // OPENAI_API_KEY must only reach OpenAI; other servers go through
+      // openai-compatible
+      if (baseURL) {
+        throw new Error(
+          "--base-url (or TRIAGE_EMBEDDING_BASE_URL) needs --provider openai-compatible; the openai provider only talks to OpenAI",
+        );
+      }
+      const apiKey = options.apiKey || process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error(
+          "OpenAI API key is required. Set OPENAI_API_KEY environment variable or use -k flag.",
+        );
+      }
+      return new OpenAIEmbeddingProvider({
+        name: "openai",
+        model: model || DEFAULT_OPENAI_MODEL,
+        dimensions: dimensions ?? DEFAULT_DIMENSIONS,
+        apiKey,
+        maxBatchSize: batchSize ?? OPENAI_MAX_BATCH_SIZE,
+        maxBatchTokens: batchTokens ?? OPENAI_MAX_BATCH_TOKENS,
+      });
+    }
+
+    case "openai-compatible":
+      if (!baseURL) {
+        throw new Error(
+          "The openai-compatible provider requires --base-url (e.g. http://localhost:11434/v1)",
+        );
+      }
+      if (!model) {
+        throw new Error(
+          "The openai-compatible provider requires --embedding-model",
+        );
+      }
+      return new OpenAIEmbeddingProvider({
+        name: "openai-compatible",
+        model,
+        // Many local servers reject the dimensions parameter, so only send
+        // it when explicitly requested
+        dimensions,
+        // Never forward OPENAI_API_KEY to a third-party server
+        apiKey: options.apiKey || process.env.TRIAGE_EMBEDDING_API_KEY,
+        baseURL,
+        maxBatchSize: batchSize ?? COMPATIBLE_MAX_BATCH_SIZE,
+        maxBatchTokens: batchTokens ?? COMPATIBLE_MAX_BATCH_TOKENS,
+      });
+
+    case "local":
+      if (model && model !== LOCAL_MODEL) {
+        throw new Error(
+          `The local provider only supports the ${LOCAL_MODEL} model`,
+        );
+      }
+      return new LocalEmbeddingProvider(
+        dimensions ?? DEFAULT_DIMENSIONS,
+        batchSize ?? LOCAL_MAX_BATCH_SIZE,
+      );
+
+    default:
+      throw new Error(
+        `Unknown embedding provider "${providerName}". Expected one of: ${EMBEDDING_PROVIDER_NAMES.join(
+          ", ",
+        )}`,
+      );
+  }
+}
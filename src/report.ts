@@ -0,0 +1,314 @@
+import { promises as fs } from "fs";
+import pLimit from "p-limit";
+import path from "path";
+import {
+  analyzeClusteringResults,
+  Cluster,
+  FileItem,
+  formatDate,
+  formatFileSize,
+  getDisplayPath,
+} from "./clustering.js";
+import { generateFileInfoTextForDisplay, isImageFile } from "./fileinfo.js";
+import { formatClusterTitle } from "./labels.js";
+import {
+  buildPlan,
+  PLAN_ACTION_TYPES,
+  PlanCluster,
+  PlanFileEntry,
+} from "./plan.js";
+import { runCommand, toCommandPath } from "./process.js";
+import { RedactionMode, redactSecrets } from "./redaction.js";
+
+export interface HtmlReportOptions {
+  directories: string[]; // Scanned directories, recorded in the decisions plan
+  redaction: RedactionMode; // Applied to snippets, since reports get shared
+}
+
+const THUMBNAIL_SIZE = 160;
+const MAX_INLINE_IMAGE_BYTES = 256 * 1024;
+const REPORT_CONCURRENCY = 4;
+
+// Formats browsers display natively, inlined as-is when small enough
+const INLINE_IMAGE_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+};
+
+interface FilePreview {
+  snippet: string | null;
+  thumbnail: string | null; // data: URI
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Build a small JPEG thumbnail as a data URI with ImageMagick, falling back
+ * to inlining small images browsers can show directly
+ */
+async function createThumbnail(filePath: string): Promise<string | null> {
+  const geometry = `${THUMBNAIL_SIZE}x${THUMBNAIL_SIZE}>`;
+  // `[0]` picks the first frame of animations and multi-page files
+  const input = `${toCommandPath(filePath)}[0]`;
+  for (const [command, ...args] of [
+    ["magick", input, "-thumbnail", geometry, "jpg:-"],
+    ["convert", input, "-thumbnail", geometry, "jpg:-"],
+  ]) {
+    try {
+      const { stdout, truncated } = await runCommand(command, args, {
+        encoding: "buffer",
+        maxBytes: 1024 * 1024,
+        timeout: 15000,
+      });
+      if (stdout.length > 0 && !truncated) {
+        return `data:image/jpeg;base64,${stdout.toString("base64")}`;
+      }
+    } catch (error) {
+      // Tool missing or unsupported format; try the next option
+    }
+  }
+
+  const mimeType = INLINE_IMAGE_TYPES[path.extname(filePath).toLowerCase()];
+  if (mimeType) {
+    try {
+      const stats = await fs.stat(filePath);
+      if (stats.size <= MAX_INLINE_IMAGE_BYTES) {
+        const data = await fs.readFile(filePath);
+        return `data:${mimeType};base64,${data.toString("base64")}`;
+      }
+    } catch (error) {
+      // Unreadable; no thumbnail
+    }
+  }
+  return null;
+}
+
+async function buildPreview(
+  file: FileItem,
+  redaction: RedactionMode,
+): Promise<FilePreview> {
+  let snippet: string | null = null;
+  // Metadata-only redaction means no content leaves the machine at all
+  if (redaction !== "metadata") {
+    try {
+      const text = await generateFileInfoTextForDisplay(file.filePath);
+      snippet = redaction === "mask" ? redactSecrets(text).text : text;
+    } catch (error) {
+      // File vanished or is unreadable
+    }
+  }
+
+  const thumbnail = isImageFile(path.extname(file.filePath))
+    ? await createThumbnail(file.filePath)
+    : null;
+  return { snippet, thumbnail };
+}
+
+function renderSummary(clusters: Cluster[]): string {
+  const analysis = analyzeClusteringResults(clusters);
+  const distribution = Object.entries(analysis.sizeDistribution)
+    .filter(([, count]) => count > 0)
+    .map(([range, count]) => `<li>${escapeHtml(range)}: ${count} clusters</li>`)
+    .join("");
+  const suggestions = analysis.suggestions
+    .map((suggestion) => `<li>${escapeHtml(suggestion)}</li>`)
+    .join("");
+
+  return `<section class="summary">
+  <h2>Summary</h2>
+  <p>${analysis.totalFiles} files in ${analysis.totalClusters} clusters</p>
+  <ul>${distribution}</ul>
+  ${suggestions ? `<h3>Suggestions</h3><ul>${suggestions}</ul>` : ""}
+</section>`;
+}
+
+function renderFile(
+  file: FileItem,
+  entry: PlanFileEntry,
+  preview: FilePreview,
+  clusterIndex: number,
+  fileIndex: number,
+): string {
+  // Start from the plan's proposal so downloading keeps it
+  const actions = PLAN_ACTION_TYPES.map(
+    (action) =>
+      `<option value="${action}"${
+        action === entry.action ? " selected" : ""
+      }>${action}</option>`,
+  ).join("");
+  const hidden =
+    entry.action === "move" || entry.action === "rename" ? "" : " hidden";
+  const thumbnail = preview.thumbnail
+    ? `<img src="${preview.thumbnail}" alt="">`
+    : "";
+  const snippet = preview.snippet
+    ? `<details><summary>Preview</summary><pre>${escapeHtml(
+        preview.snippet,
+      )}</pre></details>`
+    : "";
+
+  return `<tr data-cluster="${clusterIndex}" data-file="${fileIndex}">
+  <td class="thumb">${thumbnail}</td>
+  <td><div class="path">${escapeHtml(getDisplayPath(file))}</div>${snippet}</td>
+  <td>${formatFileSize(file.size)}</td>
+  <td>${escapeHtml(formatDate(file.lastModified))}</td>
+  <td>${escapeHtml(file.strategy ?? "")}</td>
+  <td class="decision">
+    <select class="action">${actions}</select>
+    <input class="destination" placeholder="folder or new name" value="${escapeHtml(
+      entry.destination ?? "",
+    )}"${hidden}>
+  </td>
+</tr>`;
+}
+
+function renderCluster(
+  cluster: Cluster,
+  planCluster: PlanCluster,
+  previews: FilePreview[],
+  clusterIndex: number,
+): string {
+  const title = `${formatClusterTitle(cluster)} (${
+    cluster.files.length
+  } files)`;
+  const keywords = cluster.keywords?.length
+    ? `<p class="keywords">${escapeHtml(cluster.keywords.join(", "))}</p>`
+    : "";
+  const rows = cluster.files
+    .map((file, fileIndex) =>
+      renderFile(
+        file,
+        planCluster.files[fileIndex],
+        previews[fileIndex],
+        clusterIndex,
+        fileIndex,
+      ),
+    )
+    .join("\n");
+
+  return `<section class="cluster">
+  <h2>${escapeHtml(title)}</h2>
+  ${keywords}
+  <table>
+    <thead><tr><th></th><th>File</th><th>Size</th><th>Modified</th><th>Strategy</th><th>Decision</th></tr></thead>
+    <tbody>
+${rows}
+    </tbody>
+  </table>
+</section>`;
+}
+
+const REPORT_STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; background: #f6f6f6; }
+section { background: #fff; border-radius: 8px; padding: 1rem 1.5rem; margin-bottom: 1.5rem; box-shadow: 0 1px 3px rgba(0,0,0,.1); }
+table { width: 100%; border-collapse: collapse; }
+th, td { text-align: left; vertical-align: top; padding: .4rem; border-bottom: 1px solid #eee; }
+td.thumb { width: ${THUMBNAIL_SIZE}px; }
+td.thumb img { max-width: ${THUMBNAIL_SIZE}px; max-height: ${THUMBNAIL_SIZE}px; }
+.keywords { color: #666; margin-top: -.5rem; }
+.path { font-family: monospace; word-break: break-all; }
+pre { white-space: pre-wrap; font-size: .85em; background: #fafafa; padding: .5rem; max-height: 20em; overflow: auto; }
+.decision input { display: block; margin-top: .3rem; }
+header button { font-size: 1rem; padding: .4rem 1rem; }
+`;
+
+// Collects the decisions into a plan that `file-triage apply` accepts
+const REPORT_SCRIPT = `
+const plan = JSON.parse(document.getElementById("plan").textContent);
+document.querySelectorAll("select.action").forEach((select) => {
+  select.addEventListener("change", () => {
+    const input = select.parentElement.querySelector("input.destination");
+    input.hidden = select.value !== "move" && select.value !== "rename";
+  });
+});
+document.getElementById("download").addEventListener("click", () => {
+  document.querySelectorAll("tr[data-cluster]").forEach((row) => {
+    const entry = plan.clusters[row.dataset.cluster].files[row.dataset.file];
+    entry.action = row.querySelector("select.action").value;
+    const destination = row.querySelector("input.destination").value.trim();
+    if (entry.action === "move" || entry.action === "rename") {
+      entry.destination = destination;
+    } else {
+      delete entry.destination;
+    }
+  });
+  const blob = new Blob([JSON.stringify(plan, null, 2) + "\\n"], { type: "application/json" });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = "plan.json";
+  link.click();
+  URL.revokeObjectURL(link.href);
+});
+`;
+
+/**
+ * Render a self-contained HTML report of clusters with file previews and
+ * a form to record a decision per file
+ * Decisions download as a plan file for `file-triage apply`
+ */
+export async function buildHtmlReport(
+  clusters: Cluster[],
+  options: HtmlReportOptions,
+  onProgress?: (current: number, total: number) => void,
+): Promise<string> {
+  const total = clusters.reduce((sum, c) => sum + c.files.length, 0);
+  const limit = pLimit(REPORT_CONCURRENCY);
+  let completed = 0;
+
+  const previews = await Promise.all(
+    clusters.map((cluster) =>
+      Promise.all(
+        cluster.files.map((file) =>
+          limit(async () => {
+            const preview = await buildPreview(file, options.redaction);
+            onProgress?.(++completed, total);
+            return preview;
+          }),
+        ),
+      ),
+    ),
+  );
+
+  // Escape "<" so file names can't close the script element
+  const plan = buildPlan(clusters, options.directories);
+  const planJson = JSON.stringify(plan).replace(/</g, "\\u003c");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>File triage report</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<header>
+  <h1>File triage report</h1>
+  <p>${escapeHtml(options.directories.join(", "))} &middot; generated ${escapeHtml(
+    new Date().toLocaleString(),
+  )}</p>
+  <p>Review the proposed decision for each file, then download the plan and run <code>file-triage apply plan.json</code>.</p>
+  <button id="download">Download decisions (plan.json)</button>
+</header>
+${renderSummary(clusters)}
+${clusters
+  .map((cluster, index) =>
+    renderCluster(cluster, plan.clusters[index], previews[index], index),
+  )
+  .join("\n")}
+<script type="application/json" id="plan">${planJson}</script>
+<script>${REPORT_SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,191 @@
+import { LimitFunction } from "p-limit";
+
+/**
+ * Coarse classification of why an embedding call failed
+ */
+export type ErrorClass =
+  | "rate-limit"
+  | "server"
+  | "timeout"
+  | "network"
+  | "client"
+  | "extraction"
+  | "unknown";
+
+export interface RetryOptions {
+  maxRetries: number; // Retries after the first attempt
+  baseDelayMs: number; // Backoff base; doubles with every attempt
+  maxDelayMs: number; // Upper bound for a single backoff delay
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+};
+
+const NETWORK_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "ETIMEDOUT",
+];
+
+/**
+ * Classify an error thrown by an embedding provider
+ * Works on OpenAI SDK errors (which carry `status` and `headers`) as well as
+ * plain Node.js network errors
+ */
+export function classifyError(error: unknown): ErrorClass {
+  const err = error as any;
+  if (!err || typeof err !== "object") return "unknown";
+
+  const status = typeof err.status === "number" ? err.status : undefined;
+  if (status === 429) return "rate-limit";
+  if (status === 408) return "timeout";
+  if (status !== undefined && status >= 500) return "server";
+  if (status !== undefined && status >= 400) return "client";
+
+  const name = String(err.name || err.constructor?.name || "");
+  if (/timeout/i.test(name)) return "timeout";
+  if (/connection/i.test(name)) return "network";
+
+  const code = err.code ?? err.cause?.code;
+  if (code && NETWORK_ERROR_CODES.includes(code)) return "network";
+
+  return "unknown";
+}
+
+/**
+ * Whether an error class is worth retrying
+ */
+export function isRetryable(errorClass: ErrorClass): boolean {
+  return (
+    errorClass === "rate-limit" ||
+    errorClass === "server" ||
+    errorClass === "timeout" ||
+    errorClass === "network"
+  );
+}
+
+/**
+ * Read the server's requested wait time from `retry-after-ms` or
+ * `retry-after` (seconds or an HTTP date), if present
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const headers = (error as any)?.headers;
+  if (!headers) return undefined;
+
+  const read = (name: string): string | undefined => {
+    const value =
+      typeof headers.get === "function" ? headers.get(name) : headers[name];
+    return value ?? undefined;
+  };
+
+  const retryAfterMs = read("retry-after-ms");
+  if (retryAfterMs && !isNaN(parseFloat(retryAfterMs))) {
+    return parseFloat(retryAfterMs);
+  }
+
+  const retryAfter = read("retry-after");
+  if (!retryAfter) return undefined;
+
+  const seconds = parseFloat(retryAfter);
+  if (!isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(retryAfter);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with full jitter, never shorter than the server's
+ * Retry-After hint nor longer than maxDelayMs, whatever the server asks
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: RetryOptions,
+  retryAfterMs?: number,
+): number {
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** attempt,
+  );
+  const jittered = Math.random() * ceiling;
+  return Math.min(Math.max(jittered, retryAfterMs ?? 0), options.maxDelayMs);
+}
+
+/**
+ * Run an async operation, retrying transient failures with backoff
+ * `onRetry` is called before each wait, e.g. to shrink concurrency
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  onRetry?: (info: {
+    attempt: number;
+    delayMs: number;
+    errorClass: ErrorClass;
+    error: unknown;
+  }) => void,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const errorClass = classifyError(error);
+      if (!isRetryable(errorClass) || attempt >= options.maxRetries) {
+        throw error;
+      }
+
+      const delayMs = computeBackoffDelay(
+        attempt,
+        options,
+        getRetryAfterMs(error),
+      );
+      onRetry?.({ attempt: attempt + 1, delayMs, errorClass, error });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Adjusts a p-limit pool's concurrency based on throttling:
+ * halves it when the provider rate-limits us, and grows it back one slot
+ * at a time after a run of successful calls
+ */
+export class AdaptiveConcurrency {
+  private limit: LimitFunction;
+  private maxConcurrency: number;
+  private successesSinceChange = 0;
+
+  constructor(limit: LimitFunction) {
+    this.limit = limit;
+    this.maxConcurrency = limit.concurrency;
+  }
+
+  get concurrency(): number {
+    return this.limit.concurrency;
+  }
+
+  throttle(): void {
+    this.successesSinceChange = 0;
+    this.limit.concurrency = Math.max(
+      1,
+      Math.floor(this.limit.concurrency / 2),
+    );
+  }
+
+  recordSuccess(): void {
+    if (this.limit.concurrency >= this.maxConcurrency) return;
+
+    this.successesSinceChange++;
+    if (this.successesSinceChange >= this.limit.concurrency * 2) {
+      this.successesSinceChange = 0;
+      this.limit.concurrency = this.limit.concurrency + 1;
+    }
+  }
+}
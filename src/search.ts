@@ -0,0 +1,97 @@
+import path from "path";
+import { cosineSimilarity, FileItem } from "./clustering.js";
+import { discoverFiles, DiscoveryOptions } from "./discovery.js";
+import { EmbeddingService } from "./embeddings.js";
+
+export interface SearchResult {
+  file: FileItem;
+  score: number; // Cosine similarity to the query
+}
+
+export interface CachedFiles {
+  files: FileItem[];
+  uncachedCount: number; // Files without a valid cached embedding
+}
+
+const SNIPPET_LENGTH = 200;
+
+/**
+ * Load the cached embeddings of the files in each directory
+ * Nothing is embedded: files that were never embedded with the current
+ * provider and pipeline (or changed since) are only counted
+ */
+export async function collectCachedFiles(
+  directories: string[],
+  embeddingService: EmbeddingService,
+  discoveryOptions: DiscoveryOptions,
+  useFastCache: boolean,
+): Promise<CachedFiles> {
+  const files: FileItem[] = [];
+  let uncachedCount = 0;
+
+  for (const dir of directories.map((d) => path.resolve(d))) {
+    await embeddingService.initializeCache(dir, useFastCache);
+    try {
+      for (const { filePath, stats } of await discoverFiles(
+        dir,
+        discoveryOptions,
+      )) {
+        const cached = await embeddingService.getCachedEmbeddingInfo(filePath);
+        if (!cached) {
+          uncachedCount++;
+          continue;
+        }
+        files.push({
+          filePath,
+          embedding: cached.embedding,
+          size: stats.size,
+          lastModified: stats.mtime,
+          rootDir: dir,
+          strategy: cached.strategy,
+        });
+      }
+    } finally {
+      await embeddingService.closeCache();
+    }
+  }
+
+  return { files, uncachedCount };
+}
+
+/**
+ * Rank files by cosine similarity to a query embedding, best first
+ */
+export function rankBySimilarity(
+  queryEmbedding: number[],
+  files: FileItem[],
+  limit: number,
+  minScore: number = -1,
+): SearchResult[] {
+  return files
+    .map((file) => ({
+      file,
+      score: cosineSimilarity(queryEmbedding, file.embedding),
+    }))
+    .filter((result) => result.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * A one-line excerpt of the text a file was embedded from
+ */
+export async function getSearchSnippet(
+  filePath: string,
+  embeddingService: EmbeddingService,
+): Promise<string | null> {
+  try {
+    const text = (await embeddingService.extractText(filePath))
+      .replace(/\s+/g, " ")
+      .trim();
+    return text.length > SNIPPET_LENGTH
+      ? text.slice(0, SNIPPET_LENGTH) + "…"
+      : text;
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,211 @@
+import { createClient } from "@libsql/client";
+import path from "path";
+import { EmbeddingCache } from "./cache.js";
+import { Cluster, FileItem } from "./clustering.js";
+import { DiscoveryOptions } from "./discovery.js";
+import { FileStatus } from "./interactive.js";
+
+/**
+ * A clustered file as persisted between runs; embeddings are not stored and
+ * are looked up again from the embedding cache on resume
+ */
+export interface SavedFile {
+  filePath: string; // Current path, after any rename
+  size: number;
+  lastModified: string; // ISO timestamp
+  rootDir?: string;
+}
+
+export interface SavedCluster {
+  id: number;
+  kind?: Cluster["kind"];
+  groupNumber?: number;
+  files: SavedFile[];
+}
+
+/**
+ * Where a triage session stands: cluster assignments, the cluster being
+ * triaged and the status of each of its files
+ */
+export interface SessionState {
+  clusters: SavedCluster[];
+  clusterIndex: number;
+  fileStatuses: FileStatus[]; // Statuses for clusters[clusterIndex]
+}
+
+export interface SavedSession {
+  sessionId: string;
+  directories: string[];
+  // How the directories were scanned; null for sessions saved before this
+  // was recorded
+  discoveryOptions: DiscoveryOptions | null;
+  state: SessionState;
+  updatedAt: Date;
+}
+
+/**
+ * Convert clusters to their persisted form
+ */
+export function snapshotClusters(clusters: Cluster[]): SavedCluster[] {
+  return clusters.map((cluster) => ({
+    id: cluster.id,
+    kind: cluster.kind,
+    groupNumber: cluster.groupNumber,
+    files: cluster.files.map((file) => ({
+      filePath: file.filePath,
+      size: file.size,
+      lastModified: file.lastModified.toISOString(),
+      rootDir: file.rootDir,
+    })),
+  }));
+}
+
+/**
+ * Rebuild saved clusters from freshly scanned files
+ * Files that no longer exist (e.g. deleted during the session) keep their
+ * saved metadata but have no embedding
+ */
+export function restoreClusters(
+  saved: SavedCluster[],
+  scannedFiles: FileItem[],
+): Cluster[] {
+  const byPath = new Map(scannedFiles.map((file) => [file.filePath, file]));
+
+  return saved.map((cluster) => ({
+    id: cluster.id,
+    kind: cluster.kind,
+    groupNumber: cluster.groupNumber,
+    files: cluster.files.map(
+      (file) =>
+        byPath.get(file.filePath) ?? {
+          filePath: file.filePath,
+          embedding: [],
+          size: file.size,
+          lastModified: new Date(file.lastModified),
+          rootDir: file.rootDir,
+        },
+    ),
+  }));
+}
+
+/**
+ * Persists triage session state in the `.triage.db` of the session's first
+ * directory so an interrupted session can be resumed
+ */
+export class SessionStore {
+  private client: any;
+  private directory: string;
+  private isInitialized = false;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
+    this.client = createClient({
+      url: `file:${path.join(this.directory, EmbeddingCache.DB_FILENAME)}`,
+    });
+
+    await this.client.execute(`
+      CREATE TABLE IF NOT EXISTS triage_sessions (
+        session_id TEXT PRIMARY KEY,
+        directories TEXT NOT NULL,
+        state TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        completed_at INTEGER,
+        discovery_options TEXT
+      )
+    `);
+
+    // Tables created before discovery options were recorded lack the column
+    const columns = await this.client.execute(
+      `PRAGMA table_info(triage_sessions)`,
+    );
+    if (
+      !columns.rows.some((column: any) => column.name === "discovery_options")
+    ) {
+      await this.client.execute(
+        `ALTER TABLE triage_sessions ADD COLUMN discovery_options TEXT`,
+      );
+    }
+
+    this.isInitialized = true;
+  }
+
+  async save(
+    sessionId: string,
+    directories: string[],
+    discoveryOptions: DiscoveryOptions,
+    state: SessionState,
+  ): Promise<void> {
+    await this.client.execute({
+      sql: `INSERT INTO triage_sessions (session_id, directories, discovery_options, state, updated_at)
+            VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT(session_id) DO UPDATE SET
+              directories = excluded.directories,
+              discovery_options = excluded.discovery_options,
+              state = excluded.state,
+              updated_at = excluded.updated_at,
+              completed_at = NULL`,
+      args: [
+        sessionId,
+        JSON.stringify(directories),
+        JSON.stringify(discoveryOptions),
+        JSON.stringify(state),
+        Date.now(),
+      ],
+    });
+  }
+
+  /**
+   * Load an unfinished session: the given one, or the most recently
+   * updated one
+   */
+  async loadUnfinished(sessionId?: string): Promise<SavedSession | null> {
+    const result = sessionId
+      ? await this.client.execute({
+          sql: `SELECT * FROM triage_sessions
+                WHERE session_id = ? AND completed_at IS NULL`,
+          args: [sessionId],
+        })
+      : await this.client.execute(`
+          SELECT * FROM triage_sessions
+          WHERE completed_at IS NULL
+          ORDER BY updated_at DESC
+          LIMIT 1
+        `);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      sessionId: row.session_id,
+      directories: JSON.parse(row.directories),
+      discoveryOptions: row.discovery_options
+        ? JSON.parse(row.discovery_options)
+        : null,
+      state: JSON.parse(row.state),
+      updatedAt: new Date(Number(row.updated_at)),
+    };
+  }
+
+  /**
+   * Mark a session as finished so it is no longer offered for resuming
+   */
+  async complete(sessionId: string): Promise<void> {
+    await this.client.execute({
+      sql: `UPDATE triage_sessions SET completed_at = ? WHERE session_id = ?`,
+      args: [Date.now(), sessionId],
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.client) {
+      await this.client.close();
+    }
+  }
+}
@@ -0,0 +1,255 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+/**
+ * How deleted files are disposed of:
+ * - trash: moved to the freedesktop.org Trash (`~/.local/share/Trash`)
+ * - quarantine: moved to a tool-managed folder with the same layout
+ * - permanent: unlinked
+ */
+export type DeleteMode = "trash" | "quarantine" | "permanent";
+
+export interface DeleteOptions {
+  mode: DeleteMode;
+  quarantineDir?: string; // Required for the quarantine mode
+}
+
+/**
+ * A file that was moved to a trash directory
+ */
+export interface TrashedFile {
+  trashDir: string;
+  name: string; // Entry name under files/ and info/
+  trashedPath: string;
+  originalPath: string;
+  deletionDate: Date;
+}
+
+const TRASHINFO_EXTENSION = ".trashinfo";
+
+/**
+ * The user's home trash directory, honoring XDG_DATA_HOME
+ */
+export function getHomeTrashDir(): string {
+  const dataHome =
+    process.env.XDG_DATA_HOME || path.join(os.homedir(), ".local", "share");
+  return path.join(dataHome, "Trash");
+}
+
+/**
+ * The trash directory used for a delete mode, or null for permanent deletes
+ */
+export function getTrashDir(options: DeleteOptions): string | null {
+  switch (options.mode) {
+    case "trash":
+      return getHomeTrashDir();
+    case "quarantine":
+      if (!options.quarantineDir) {
+        throw new Error("Quarantine mode requires a quarantine directory");
+      }
+      return path.resolve(options.quarantineDir);
+    case "permanent":
+      return null;
+  }
+}
+
+/**
+ * Format a date as the spec requires: local time, YYYY-MM-DDThh:mm:ss
+ */
+function formatDeletionDate(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(
+    date.getSeconds(),
+  )}`;
+}
+
+/**
+ * Percent-encode a path for the trashinfo Path key, keeping slashes
+ */
+function encodeTrashPath(filePath: string): string {
+  return filePath.split("/").map(encodeURIComponent).join("/");
+}
+
+function buildTrashInfo(originalPath: string, deletionDate: Date): string {
+  return `[Trash Info]\nPath=${encodeTrashPath(
+    originalPath,
+  )}\nDeletionDate=${formatDeletionDate(deletionDate)}\n`;
+}
+
+function parseTrashInfo(
+  content: string,
+): { originalPath: string; deletionDate: Date } | null {
+  const pathMatch = content.match(/^Path=(.*)$/m);
+  if (!pathMatch) {
+    return null;
+  }
+  const dateMatch = content.match(/^DeletionDate=(.*)$/m);
+  return {
+    originalPath: decodeURIComponent(pathMatch[1].trim()),
+    deletionDate: dateMatch ? new Date(dateMatch[1].trim()) : new Date(NaN),
+  };
+}
+
+/**
+ * Reserve a unique entry name by exclusively creating its info file
+ * Returns the name, e.g. "report.pdf" or "report.2.pdf" on collision
+ */
+async function reserveTrashEntry(
+  trashDir: string,
+  baseName: string,
+  info: string,
+): Promise<string> {
+  const ext = path.extname(baseName);
+  const stem = path.basename(baseName, ext);
+
+  for (let attempt = 1; ; attempt++) {
+    const name = attempt === 1 ? baseName : `${stem}.${attempt}${ext}`;
+    try {
+      await fs.access(path.join(trashDir, "files", name));
+      continue; // Left behind without an info file; don't clobber it
+    } catch (error) {
+      // Not present, try to claim it
+    }
+    try {
+      await fs.writeFile(
+        path.join(trashDir, "info", name + TRASHINFO_EXTENSION),
+        info,
+        { flag: "wx" },
+      );
+      return name;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Move a file, copying it when source and destination are on different
+ * filesystems
+ */
+async function moveAcrossDevices(
+  sourcePath: string,
+  destinationPath: string,
+): Promise<void> {
+  try {
+    await fs.rename(sourcePath, destinationPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") {
+      throw error;
+    }
+    await fs.copyFile(sourcePath, destinationPath);
+    const stats = await fs.stat(sourcePath);
+    await fs.utimes(destinationPath, stats.atime, stats.mtime);
+    await fs.unlink(sourcePath);
+  }
+}
+
+/**
+ * Move a file into a trash directory, writing its .trashinfo metadata first
+ * as the freedesktop.org Trash specification requires
+ */
+export async function trashFile(
+  filePath: string,
+  trashDir: string,
+): Promise<TrashedFile> {
+  const originalPath = path.resolve(filePath);
+  const deletionDate = new Date();
+
+  await fs.mkdir(path.join(trashDir, "files"), { recursive: true });
+  await fs.mkdir(path.join(trashDir, "info"), { recursive: true });
+
+  const name = await reserveTrashEntry(
+    trashDir,
+    path.basename(originalPath),
+    buildTrashInfo(originalPath, deletionDate),
+  );
+  const trashedPath = path.join(trashDir, "files", name);
+
+  try {
+    await moveAcrossDevices(originalPath, trashedPath);
+  } catch (error) {
+    // Release the reservation so the trash stays consistent
+    await fs.rm(path.join(trashDir, "info", name + TRASHINFO_EXTENSION), {
+      force: true,
+    });
+    throw error;
+  }
+
+  return { trashDir, name, trashedPath, originalPath, deletionDate };
+}
+
+/**
+ * List the entries of a trash directory, newest first
+ */
+export async function listTrashedFiles(
+  trashDir: string,
+): Promise<TrashedFile[]> {
+  let infoFiles: string[];
+  try {
+    infoFiles = await fs.readdir(path.join(trashDir, "info"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  // DeletionDate only has second precision; the info file's mtime orders
+  // entries trashed within the same second
+  const entries: Array<TrashedFile & { infoMtimeMs: number }> = [];
+  for (const infoFile of infoFiles) {
+    if (!infoFile.endsWith(TRASHINFO_EXTENSION)) continue;
+
+    const name = infoFile.slice(0, -TRASHINFO_EXTENSION.length);
+    const infoPath = path.join(trashDir, "info", infoFile);
+    try {
+      const info = parseTrashInfo(await fs.readFile(infoPath, "utf-8"));
+      if (!info) continue;
+      entries.push({
+        trashDir,
+        name,
+        trashedPath: path.join(trashDir, "files", name),
+        ...info,
+        infoMtimeMs: (await fs.stat(infoPath)).mtimeMs,
+      });
+    } catch (error) {
+      // Unreadable info file; skip it
+    }
+  }
+
+  return entries
+    .sort(
+      (a, b) =>
+        b.deletionDate.getTime() - a.deletionDate.getTime() ||
+        b.infoMtimeMs - a.infoMtimeMs,
+    )
+    .map(({ infoMtimeMs, ...entry }) => entry);
+}
+
+/**
+ * Move a trashed file back to its original location and drop its metadata
+ * Refuses to overwrite a file that has since been created at that path
+ */
+export async function restoreTrashedFile(entry: TrashedFile): Promise<string> {
+  try {
+    await fs.access(entry.originalPath);
+    throw new Error(`File ${entry.originalPath} already exists`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  }
+
+  await fs.mkdir(path.dirname(entry.originalPath), { recursive: true });
+  await moveAcrossDevices(entry.trashedPath, entry.originalPath);
+  await fs.rm(
+    path.join(entry.trashDir, "info", entry.name + TRASHINFO_EXTENSION),
+    { force: true },
+  );
+  return entry.originalPath;
+}
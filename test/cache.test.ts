@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { EmbeddingCache, EmbeddingProvenance } from "../src/cache.js";
+
+describe("cache entries of configured strategies", () => {
+  let directory: string;
+  let epubPath: string;
+  let textPath: string;
+
+  const provenance = (
+    strategyVersions: Array<[string, string]>,
+  ): EmbeddingProvenance => ({
+    model: "local:test",
+    dimensions: 3,
+    pipelineVersion: "1",
+    redaction: "mask",
+    strategyVersions: new Map(strategyVersions),
+  });
+
+  // Which of the files have a usable entry for a set of strategy versions
+  const cachedWith = async (
+    strategyVersions: Array<[string, string]>,
+    filePaths: string[],
+  ): Promise<string[]> => {
+    const cache = new EmbeddingCache(
+      directory,
+      true,
+      provenance(strategyVersions),
+    );
+    await cache.initialize();
+    try {
+      const cached: string[] = [];
+      for (const filePath of filePaths) {
+        if (await cache.getCachedEmbedding(filePath)) {
+          cached.push(path.basename(filePath));
+        }
+      }
+      return cached;
+    } finally {
+      await cache.close();
+    }
+  };
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "triage-cache-"));
+    epubPath = path.join(directory, "book.epub");
+    textPath = path.join(directory, "notes.txt");
+    await fs.writeFile(epubPath, "a book");
+    await fs.writeFile(textPath, "some notes");
+
+    const cache = new EmbeddingCache(
+      directory,
+      true,
+      provenance([["epub", "v1"]]),
+    );
+    await cache.initialize();
+    await cache.setCachedEmbedding(epubPath, [1, 0, 0], "epub");
+    await cache.setCachedEmbedding(textPath, [0, 1, 0], "cat");
+    await cache.close();
+  });
+
+  after(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("keep entries while their strategy is unchanged", async () => {
+    assert.deepEqual(
+      await cachedWith(
+        [
+          ["epub", "v1"],
+          ["note", "v1"],
+        ],
+        [epubPath, textPath],
+      ),
+      ["book.epub", "notes.txt"],
+    );
+  });
+
+  it("only invalidate the files of a changed or removed strategy", async () => {
+    assert.deepEqual(await cachedWith([["epub", "v2"]], [epubPath, textPath]), [
+      "notes.txt",
+    ]);
+    assert.deepEqual(await cachedWith([], [epubPath, textPath]), ["notes.txt"]);
+  });
+
+  it("invalidate the files of a built-in tool once it is replaced", async () => {
+    assert.deepEqual(
+      await cachedWith(
+        [
+          ["epub", "v1"],
+          ["cat", "v1"],
+        ],
+        [epubPath, textPath],
+      ),
+      ["book.epub"],
+    );
+  });
+
+  it("match copies only while their strategy is unchanged", async () => {
+    const copyPath = path.join(directory, "copy.epub");
+    await fs.copyFile(epubPath, copyPath);
+
+    assert.deepEqual(await cachedWith([["epub", "v2"]], [copyPath]), []);
+    assert.deepEqual(await cachedWith([["epub", "v1"]], [copyPath]), [
+      "copy.epub",
+    ]);
+  });
+});
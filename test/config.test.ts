@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { readConfig } from "../src/config.js";
+import {
+  detectAvailableTools,
+  getConfiguredStrategyVersions,
+  registerStrategies,
+} from "../src/fileinfo.js";
+import { runCommand } from "../src/process.js";
+
+describe("configured strategies", () => {
+  let directory: string;
+  let catPath: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "triage-config-"));
+    catPath = (await runCommand("sh", ["-c", "command -v cat"])).stdout.trim();
+  });
+
+  after(async () => {
+    registerStrategies([]);
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const writeConfig = async (strategies: object[]): Promise<string> => {
+    const configPath = path.join(directory, ".triagerc");
+    await fs.writeFile(configPath, JSON.stringify({ strategies }));
+    return configPath;
+  };
+
+  it("keeps strategies whose command is an absolute path", async () => {
+    const { strategies } = await readConfig(
+      await writeConfig([
+        {
+          name: "absolute-cat",
+          command: catPath,
+          args: ["FILEPATH"],
+          match: { extensions: [".note"] },
+        },
+        {
+          name: "missing",
+          command: path.join(directory, "no-such-tool"),
+          args: ["FILEPATH"],
+          match: { extensions: [".note"] },
+        },
+      ]),
+    );
+    registerStrategies(strategies);
+    await detectAvailableTools();
+
+    assert.equal(global.availableTools!.get("absolute-cat")?.command, catPath);
+    assert.equal(global.availableTools!.has("missing"), false);
+  });
+
+  it("versions each installed strategy for the cache provenance", async () => {
+    const epub = {
+      name: "epub",
+      command: "cat",
+      args: ["FILEPATH"],
+      match: { extensions: [".epub"] },
+      validate: { mustContain: ["[a-z]"] },
+    };
+    const note = { ...epub, name: "note", match: { extensions: [".note"] } };
+    const missing = { ...epub, name: "missing", command: "no-such-tool" };
+    const register = async (strategies: object[]) => {
+      registerStrategies(
+        (await readConfig(await writeConfig(strategies))).strategies,
+      );
+      await detectAvailableTools();
+      return getConfiguredStrategyVersions();
+    };
+
+    assert.equal((await register([])).size, 0);
+
+    const versions = await register([epub, note, missing]);
+    assert.deepEqual([...versions.keys()], ["epub", "note"]);
+    assert.match(versions.get("epub")!, /^[0-9a-f]{12}$/);
+    assert.notEqual(versions.get("epub"), versions.get("note"));
+
+    assert.deepEqual(await register([epub, note]), versions);
+
+    const changed = await register([
+      { ...epub, validate: { mustContain: ["[A-Z]"] } },
+      note,
+    ]);
+    assert.notEqual(changed.get("epub"), versions.get("epub"));
+    assert.equal(changed.get("note"), versions.get("note"));
+  });
+});
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Cluster, FileItem } from "../src/clustering.js";
+import { buildExportRows, formatClusterExport } from "../src/export.js";
+
+const file = (filePath: string): FileItem => ({
+  filePath,
+  embedding: [1, 0],
+  size: 10,
+  lastModified: new Date("2024-01-31T14:25:01.000Z"),
+});
+
+describe("cluster export", () => {
+  const copy = file("/docs/copy.txt");
+  const original = file("/docs/original.txt");
+  const clusters: Cluster[] = [
+    { id: -2, kind: "duplicate", files: [copy, original] },
+    { id: 0, files: [copy, original, file("/docs/other.txt")] },
+  ];
+
+  it("tells the rows of a file in several clusters apart", () => {
+    const rows = buildExportRows(clusters).filter(
+      (row) => row.filePath === copy.filePath,
+    );
+
+    assert.deepEqual(
+      rows.map((row) => [row.clusterId, row.clusterKind]),
+      [
+        [-2, "duplicate"],
+        [0, "semantic"],
+      ],
+    );
+  });
+
+  it("writes the kind as a CSV column", () => {
+    const [header, first] = formatClusterExport(clusters, "csv").split("\n");
+
+    assert.match(header, /^clusterId,clusterKind,clusterLabel,/);
+    assert.match(first, /^-2,duplicate,/);
+  });
+});
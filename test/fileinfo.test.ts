@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { existsSync, promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  detectAvailableTools,
+  executeStrategy,
+  extractNonTextContent,
+  getValidationFailureReason,
+  registerStrategies,
+  ToolInfo,
+} from "../src/fileinfo.js";
+import { HOSTILE_FILE_NAMES } from "./hostile.js";
+
+const CAT: ToolInfo = {
+  name: "cat",
+  command: "cat",
+  args: ["FILEPATH"],
+  description: "Plain text file content",
+};
+
+// Prints each argument on its own line, to see exactly what a tool gets
+const PRINT_ARGS: ToolInfo = {
+  name: "print-args",
+  command: "printf",
+  args: ["%s\\n", "FILEPATH", "--in=FILEPATH", "FILEPATH[0]"],
+  description: "Arguments",
+};
+
+describe("extraction with hostile file names", () => {
+  let directory: string;
+  const cwd = process.cwd();
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "triage-fileinfo-"));
+    // Names are given relative to here, and an injected command would run
+    // here too
+    process.chdir(directory);
+    for (const name of HOSTILE_FILE_NAMES) {
+      await fs.writeFile(name, `content of ${name}\n`);
+    }
+  });
+
+  after(async () => {
+    process.chdir(cwd);
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const assertNoSideEffect = () =>
+    assert.equal(existsSync(path.join(directory, "pwned")), false);
+
+  for (const name of HOSTILE_FILE_NAMES) {
+    it(`executeStrategy reads ${name}`, async () => {
+      for (const filePath of [name, path.join(directory, name)]) {
+        const content = await executeStrategy(CAT, filePath);
+
+        assert.equal(content, `Plain text file content:\ncontent of ${name}`);
+      }
+      assertNoSideEffect();
+    });
+
+    it(`executeStrategy passes ${name} as one absolute argument`, async () => {
+      const absolutePath = path.join(directory, name);
+
+      const content = await executeStrategy(PRINT_ARGS, name);
+
+      assert.equal(
+        content,
+        `Arguments:\n${absolutePath}\n--in=${absolutePath}\n${absolutePath}[0]`,
+      );
+      assertNoSideEffect();
+    });
+
+    it(`extractNonTextContent reads ${name}`, async () => {
+      const { content, strategy } = await extractNonTextContent(
+        name,
+        path.extname(name),
+        await fs.stat(name),
+      );
+
+      assert.equal(strategy, "cat");
+      assert.equal(content, `Plain text file content:\ncontent of ${name}`);
+      assertNoSideEffect();
+    });
+  }
+});
+
+describe("built-in validators", () => {
+  before(async () => {
+    registerStrategies([]);
+    await detectAvailableTools();
+  });
+
+  const check = (toolName: string, content: string): string | null => {
+    const tool = global.availableTools!.get(toolName)!;
+    return getValidationFailureReason(tool, `${tool.description}:\n${content}`);
+  };
+
+  it("require more than the minimum length", () => {
+    assert.notEqual(check("cat", "abcdefghij"), null);
+    assert.equal(check("cat", "abcdefghijk"), null);
+    assert.notEqual(check("head", "a".repeat(50)), null);
+    assert.equal(check("head", "a".repeat(51)), null);
+  });
+
+  it("require some letters in strings output", () => {
+    assert.notEqual(check("strings", "0123456789"), null);
+    assert.notEqual(check("strings", "01234567890"), null);
+    assert.equal(check("strings", "lorem ipsum"), null);
+  });
+});
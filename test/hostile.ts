@@ -0,0 +1,16 @@
+/**
+ * File names that would run a command, split into several arguments or
+ * turn into an option if they went through a shell or were passed as is
+ */
+export const HOSTILE_FILE_NAMES = [
+  'quote".txt',
+  "it's here.txt",
+  "$(touch pwned).txt",
+  "`touch pwned`.txt",
+  "semi;touch pwned.txt",
+  "  spaced   out .txt",
+  "*.txt",
+  "-leading-dash.txt",
+  "--output=pwned",
+  "-n",
+];
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { existsSync, promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { commandExists, runCommand } from "../src/process.js";
+import { HOSTILE_FILE_NAMES } from "./hostile.js";
+
+describe("runCommand", () => {
+  let directory: string;
+  const cwd = process.cwd();
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "triage-process-"));
+    // A command injected through a file name would run here
+    process.chdir(directory);
+  });
+
+  after(async () => {
+    process.chdir(cwd);
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  for (const name of HOSTILE_FILE_NAMES) {
+    it(`passes ${name} through verbatim`, async () => {
+      const filePath = path.join(directory, name);
+      await fs.writeFile(filePath, `content of ${name}\n`);
+
+      const { stdout } = await runCommand("cat", [filePath]);
+
+      assert.equal(stdout, `content of ${name}\n`);
+      assert.equal(existsSync(path.join(directory, "pwned")), false);
+    });
+  }
+
+  it("kills a command that runs past the timeout", async () => {
+    const started = Date.now();
+    await assert.rejects(
+      runCommand("sleep", ["10"], { timeout: 200 }),
+      /timed out after 200 ms/,
+    );
+    assert.ok(Date.now() - started < 5000);
+  });
+
+  it("stops a command once maxBytes of output is reached", async () => {
+    const { stdout, truncated } = await runCommand("yes", [], {
+      maxBytes: 1000,
+    });
+
+    assert.equal(truncated, true);
+    assert.equal(stdout.length, 1000);
+    assert.match(stdout, /^(y\n)+$/);
+  });
+
+  it("rejects when the command exits with an error", async () => {
+    await assert.rejects(
+      runCommand("cat", [path.join(directory, "missing")]),
+      /exited with code 1/,
+    );
+  });
+});
+
+describe("commandExists", () => {
+  it("finds commands on the PATH", async () => {
+    assert.equal(await commandExists("cat"), true);
+    assert.equal(await commandExists("no-such-command-triage"), false);
+  });
+
+  it("checks commands given as a path at that path", async () => {
+    const catPath = (await runCommand("sh", ["-c", "command -v cat"])).stdout;
+    assert.equal(await commandExists(catPath.trim()), true);
+    assert.equal(await commandExists("/no/such/dir/cat"), false);
+  });
+});
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { createEmbeddingProvider } from "../src/providers.js";
+
+describe("createEmbeddingProvider", () => {
+  const environment = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...environment };
+  });
+
+  it("rejects a base URL for the openai provider", () => {
+    process.env.OPENAI_API_KEY = "sk-test";
+    assert.throws(
+      () =>
+        createEmbeddingProvider({
+          provider: "openai",
+          baseURL: "http://localhost:11434/v1",
+        }),
+      /--provider openai-compatible/,
+    );
+
+    process.env.TRIAGE_EMBEDDING_BASE_URL = "http://localhost:11434/v1";
+    assert.throws(
+      () => createEmbeddingProvider({ provider: "openai" }),
+      /--provider openai-compatible/,
+    );
+  });
+
+  it("never gives OPENAI_API_KEY to openai-compatible servers", () => {
+    process.env.OPENAI_API_KEY = "sk-test";
+    delete process.env.TRIAGE_EMBEDDING_API_KEY;
+    const provider = createEmbeddingProvider({
+      provider: "openai-compatible",
+      baseURL: "http://localhost:11434/v1",
+      model: "nomic-embed-text",
+    });
+    // The client is private; its key is what goes out with each request
+    assert.equal((provider as any).openai.apiKey, "not-needed");
+  });
+});
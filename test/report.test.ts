@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { Cluster, FileItem } from "../src/clustering.js";
+import { buildHtmlReport } from "../src/report.js";
+
+describe("HTML report", () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "triage-report-"));
+  });
+
+  after(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("starts each decision from the plan's proposal", async () => {
+    const file = async (
+      name: string,
+      lastModified: string,
+    ): Promise<FileItem> => {
+      const filePath = path.join(directory, name);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, "same text in every file\n");
+      return {
+        filePath,
+        embedding: [1, 0],
+        size: 24,
+        lastModified: new Date(lastModified),
+      };
+    };
+    const older = await file("notes/a.txt", "2024-01-01T00:00:00Z");
+    const newer = await file("notes/b.txt", "2024-02-01T00:00:00Z");
+    const sibling = await file("notes/c.txt", "2024-03-01T00:00:00Z");
+    const stray = await file("elsewhere/d.txt", "2024-04-01T00:00:00Z");
+    const clusters: Cluster[] = [
+      { id: -2, kind: "duplicate", files: [older, newer] },
+      { id: 0, files: [older, newer, sibling, stray] },
+    ];
+
+    const html = await buildHtmlReport(clusters, {
+      directories: [directory],
+      redaction: "mask",
+    });
+    const rows = html.match(/<tr data-cluster[\s\S]*?<\/tr>/g)!;
+    const decision = (row: string) => ({
+      action: row.match(/<option value="(\w+)" selected>/)?.[1],
+      destination: row.match(/class="destination"[^>]*value="([^"]*)"/)?.[1],
+      hidden: /class="destination"[^>]*hidden/.test(row),
+    });
+
+    assert.deepEqual(rows.map(decision), [
+      { action: "delete", destination: "", hidden: true },
+      { action: "keep", destination: "", hidden: true },
+      { action: "keep", destination: "", hidden: true },
+      { action: "keep", destination: "", hidden: true },
+      { action: "keep", destination: "", hidden: true },
+      {
+        action: "move",
+        destination: path.join(directory, "notes"),
+        hidden: false,
+      },
+    ]);
+  });
+});
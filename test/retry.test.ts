@@ -0,0 +1,21 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { computeBackoffDelay, DEFAULT_RETRY_OPTIONS } from "../src/retry.js";
+
+describe("computeBackoffDelay", () => {
+  it("waits at least as long as Retry-After asks", () => {
+    assert.equal(computeBackoffDelay(0, DEFAULT_RETRY_OPTIONS, 30_000), 30_000);
+  });
+
+  it("caps an oversized Retry-After at maxDelayMs", () => {
+    const delay = computeBackoffDelay(0, DEFAULT_RETRY_OPTIONS, 6 * 3_600_000);
+    assert.equal(delay, DEFAULT_RETRY_OPTIONS.maxDelayMs);
+  });
+
+  it("keeps the jittered delay under maxDelayMs", () => {
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const delay = computeBackoffDelay(attempt, DEFAULT_RETRY_OPTIONS);
+      assert.ok(delay >= 0 && delay <= DEFAULT_RETRY_OPTIONS.maxDelayMs);
+    }
+  });
+});
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import { runCommand } from "../src/process.js";
+
+const CLI = fileURLToPath(new URL("../src/index.ts", import.meta.url));
+
+describe("search command", () => {
+  let directory: string;
+  let filesDirectory: string;
+  const cwd = process.cwd();
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "triage-search-"));
+    filesDirectory = path.join(directory, "files");
+    const workDirectory = path.join(directory, "work");
+    await fs.mkdir(filesDirectory);
+    await fs.mkdir(workDirectory);
+
+    // Outranks the built-in cat, so the notes are extracted by it
+    await fs.writeFile(
+      path.join(workDirectory, ".triagerc"),
+      JSON.stringify({
+        strategies: [
+          {
+            name: "note",
+            command: "cat",
+            args: ["FILEPATH"],
+            description: "Note",
+            priority: 10,
+            match: { extensions: [".note"] },
+          },
+        ],
+      }),
+    );
+    await fs.writeFile(
+      path.join(filesDirectory, "birds.note"),
+      "penguins live in antarctica and eat fish all day long\n",
+    );
+    await fs.writeFile(
+      path.join(filesDirectory, "budget.note"),
+      "the quarterly budget spreadsheet needs review by friday\n",
+    );
+    await fs.writeFile(
+      path.join(filesDirectory, "soup.txt"),
+      "recipe for tomato soup with basil and garlic bread\n",
+    );
+
+    // The config file is looked up in the working directory
+    process.chdir(workDirectory);
+  });
+
+  after(async () => {
+    process.chdir(cwd);
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const run = async (args: string[]): Promise<string> => {
+    const { stdout } = await runCommand(
+      process.execPath,
+      ["--import", import.meta.resolve("tsx"), CLI, ...args],
+      { timeout: 60000 },
+    );
+    return stdout;
+  };
+
+  it("searches files extracted by a configured strategy", async () => {
+    await run([
+      "plan",
+      filesDirectory,
+      "-o",
+      path.join(directory, "plan.json"),
+      "--provider",
+      "local",
+    ]);
+
+    const output = await run([
+      "search",
+      "penguins",
+      filesDirectory,
+      "--provider",
+      "local",
+    ]);
+
+    assert.doesNotMatch(output, /not searched/);
+    assert.match(output, /Top 3 matches/);
+    assert.match(output, / 1\. \S+ birds\.note\n +Note: penguins/);
+  });
+});